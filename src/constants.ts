@@ -1,4 +1,6 @@
-import { VideoQualityRank } from './types'; // Adjusted path for server structure
+import { DeviceProfile, DeviceProfileName, HdrFormat, LanguageInfo, ParserPatternName, ParserRules, ResolutionTier, ScoringWeights, SizeBounds, VideoQualityRank } from './types'; // Adjusted path for server structure
+import { compileParserRules } from './utils/parserRules';
+import bundledParserRules from './rules/parserRules.json';
 
 export const APP_VERSION = '1.0.1'; // Updated version slightly
 
@@ -7,21 +9,179 @@ export const APP_VERSION = '1.0.1'; // Updated version slightly
 export const ADDON_ID_LIB = 'com.yourname.bitmagnet2.lib'; // Customize 'yourname'
 export const ADDON_NAME_LIB = 'Bitmagnet 2 Library';
 
+// Cache lifetimes (seconds) returned to Stremio in StremioStreamResponse and mirrored by the server-side stream cache.
+export const STREAM_CACHE_MAX_AGE = 3600; // Fresh for 1 hour
+export const STREAM_STALE_REVALIDATE = 1800; // Then served stale (and refreshed in background) for 30 mins
+export const STREAM_STALE_ERROR = 86400; // Stale results may stand in for a failed refresh for 1 day
+export const DEFAULT_STREAM_CACHE_MAX_ENTRIES = 1000; // Server-side stream response cache size (STREAM_CACHE_MAX_ENTRIES)
+
+// Stream ranking (see streamScoring.ts). The defaults add up to 100, so a perfect stream scores 100.
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  quality: 40,
+  seeders: 20,
+  language: 15,
+  titleConfidence: 8,
+  size: 5,
+  codec: 5,
+  hdr: 5,
+  releaseGroup: 2,
+};
+
+// Seeder count at which the seeders component maxes out; log scale below, so 10 -> 0.35, 100 -> 0.67
+export const SEEDERS_SCORE_SATURATION = 1000;
+
+// Codec component by normalized codec name (uppercase, no dots/spaces/hyphens); unknown codecs score 0
+export const CODEC_SCORES: Record<string, number> = {
+  AV1: 1,
+  X265: 1, HEVC: 1, H265: 1,
+  X264: 0.6, H264: 0.6, AVC: 0.6,
+  VC1: 0.3, MPEG2: 0.2,
+  XVID: 0.1, DIVX: 0.1,
+};
+
+// Stremio clients and what they can play (see deviceCompatibility.ts for the normalized names)
+export const DEVICE_PROFILES: Record<DeviceProfileName, DeviceProfile> = {
+  // Native webOS player: no Dolby Vision from files, no DTS or TrueHD
+  'lg-webos': {
+    label: 'LG webOS',
+    videoCodecs: ['H264', 'HEVC', 'AV1', 'VP9'],
+    hdrFormats: ['HDR10', 'HLG'],
+    audioCodecs: ['AAC', 'AC3', 'EAC3', 'MP3', 'OPUS', 'FLAC', 'PCM'],
+    maxResolution: 2160,
+  },
+  // ExoPlayer with audio passthrough to a receiver
+  'android-tv': {
+    label: 'Android TV',
+    videoCodecs: ['H264', 'HEVC', 'AV1', 'VP9', 'MPEG4'],
+    hdrFormats: ['HDR10', 'HDR10+', 'DV', 'HLG'],
+    audioCodecs: ['AAC', 'AC3', 'EAC3', 'DTS', 'DTS-HD', 'TRUEHD', 'MP3', 'OPUS', 'FLAC', 'PCM', 'VORBIS'],
+    maxResolution: 2160,
+  },
+  // Browser (Stremio Web): what HTML5 video decodes everywhere
+  'web': {
+    label: 'Web browser',
+    videoCodecs: ['H264', 'VP9', 'AV1'],
+    hdrFormats: [],
+    audioCodecs: ['AAC', 'MP3', 'OPUS', 'VORBIS', 'FLAC'],
+    maxResolution: 1080,
+  },
+  // Desktop app (mpv): plays everything, tone-maps HDR
+  'desktop': {
+    label: 'Desktop',
+    videoCodecs: ['H264', 'HEVC', 'AV1', 'VP9', 'MPEG4'],
+    hdrFormats: ['HDR10', 'HDR10+', 'DV', 'HLG'],
+    audioCodecs: ['AAC', 'AC3', 'EAC3', 'DTS', 'DTS-HD', 'TRUEHD', 'MP3', 'OPUS', 'FLAC', 'PCM', 'VORBIS'],
+    maxResolution: 2160,
+  },
+};
+
+// Plausible sizes per hour of runtime (1 GB/h is about 2.4 Mbps). Catches 300 MB "2160p" fakes; lower the maxima
+// to keep remuxes off metered connections.
+export const DEFAULT_SIZE_BOUNDS: Record<ResolutionTier, SizeBounds> = {
+  '2160p': { minGBPerHour: 2, maxGBPerHour: 40 },
+  '1080p': { minGBPerHour: 0.5, maxGBPerHour: 20 },
+  '720p': { minGBPerHour: 0.25, maxGBPerHour: 8 },
+  'sd': { minGBPerHour: 0.1, maxGBPerHour: 4 },
+};
+
+// Assumed runtimes when the metadata provider has none
+export const DEFAULT_RUNTIME_MINUTES = { movie: 110, episode: 45 };
+
+// Share of its score a size outlier loses in 'penalize' mode
+export const SIZE_OUTLIER_PENALTY = 0.5;
+
+// Share of its score a release by a preferred group (config.releaseGroups.prefer) gains
+export const PREFERRED_RELEASE_GROUP_BONUS = 0.15;
+
+// Language component of a release in another language but subtitled in the preferred subtitle language (1 = audio
+// in the preferred language)
+export const SUBTITLED_LANGUAGE_SCORE = 0.25;
+
+// HDR component by format (see HdrFormat)
+export const HDR_FORMAT_SCORES: Record<HdrFormat, number> = {
+  'DV': 1, 'HDR10+': 1, 'HDR10': 0.8, 'HLG': 0.6,
+};
+
+// Extra free-text searches for alternative spellings of the title ("Rocky II" -> "Rocky 2"), see generateSearchVariants
+export const MAX_TITLE_SEARCH_VARIANTS = 2;
+
+// Movies whose release year is off by more than this are treated as a different movie (remakes, namesakes)
+export const TITLE_YEAR_TOLERANCE = 1;
+
+// Season packs: how many pack candidates per request get their file list fetched to find the requested episode,
+// and which files count as playable video when matching.
+export const MAX_PACK_FILE_LOOKUPS = 10;
+export const VIDEO_FILE_EXTENSIONS = ['mkv', 'mp4', 'avi', 'm4v', 'ts', 'wmv', 'webm', 'mov', 'mpg', 'mpeg'];
+
+// Languages, most common first. Release name tokens are uppercase; two-letter tokens only where they aren't common
+// title words ("It", "De", "Hi" are left out). Generic entries come before their regional variants.
+export const LANGUAGE_TABLE: LanguageInfo[] = [
+  { code: 'en', iso6393: 'eng', name: 'English', flag: '🇬🇧', tokens: ['ENGLISH', 'ENG'] },
+  { code: 'es', iso6393: 'spa', name: 'Spanish', flag: '🇪🇸', tokens: ['SPANISH', 'ESPANOL', 'CASTELLANO', 'SPA', 'ESP'] },
+  { code: 'es-419', iso6393: 'spa', name: 'Spanish (Latin America)', flag: '🇲🇽', tokens: ['LATINO', 'LATAM'] },
+  { code: 'fr', iso6393: 'fra', iso6392b: 'fre', name: 'French', flag: '🇫🇷', tokens: ['FRENCH', 'FRANCAIS', 'TRUEFRENCH', 'VFF', 'VFI', 'FRE', 'FRA', 'FR'] },
+  { code: 'fr-CA', iso6393: 'fra', name: 'French (Canada)', flag: '🇨🇦', tokens: ['VFQ', 'QUEBECOIS'] },
+  { code: 'de', iso6393: 'deu', iso6392b: 'ger', name: 'German', flag: '🇩🇪', tokens: ['GERMAN', 'DEUTSCH', 'GER', 'DEU'] },
+  { code: 'it', iso6393: 'ita', name: 'Italian', flag: '🇮🇹', tokens: ['ITALIAN', 'ITALIANO', 'ITA'] },
+  { code: 'pt', iso6393: 'por', name: 'Portuguese', flag: '🇵🇹', tokens: ['PORTUGUESE', 'PORTUGUES', 'POR'] },
+  { code: 'pt-BR', iso6393: 'por', name: 'Portuguese (Brazil)', flag: '🇧🇷', tokens: ['PT-BR', 'BRAZILIAN', 'DUBLADO'] },
+  { code: 'pt-PT', iso6393: 'por', name: 'Portuguese (Portugal)', flag: '🇵🇹', tokens: ['PT-PT'] },
+  { code: 'ru', iso6393: 'rus', name: 'Russian', flag: '🇷🇺', tokens: ['RUSSIAN', 'RUS', 'RU'] },
+  { code: 'ja', iso6393: 'jpn', name: 'Japanese', flag: '🇯🇵', tokens: ['JAPANESE', 'JPN', 'JP'] },
+  { code: 'ko', iso6393: 'kor', name: 'Korean', flag: '🇰🇷', tokens: ['KOREAN', 'KOR', 'KO'] },
+  { code: 'zh', iso6393: 'zho', iso6392b: 'chi', name: 'Chinese', flag: '🇨🇳', tokens: ['CHINESE', 'MANDARIN', 'CHI', 'CHS', 'CHT', 'ZH'] },
+  { code: 'yue', iso6393: 'yue', name: 'Cantonese', flag: '🇭🇰', tokens: ['CANTONESE'] },
+  { code: 'hi', iso6393: 'hin', name: 'Hindi', flag: '🇮🇳', tokens: ['HINDI', 'HIN'] },
+  { code: 'ta', iso6393: 'tam', name: 'Tamil', flag: '🇮🇳', tokens: ['TAMIL', 'TAM'] },
+  { code: 'te', iso6393: 'tel', name: 'Telugu', flag: '🇮🇳', tokens: ['TELUGU', 'TEL'] },
+  { code: 'ml', iso6393: 'mal', name: 'Malayalam', flag: '🇮🇳', tokens: ['MALAYALAM', 'MAL', 'ML'] },
+  { code: 'kn', iso6393: 'kan', name: 'Kannada', flag: '🇮🇳', tokens: ['KANNADA'] },
+  { code: 'mr', iso6393: 'mar', name: 'Marathi', flag: '🇮🇳', tokens: ['MARATHI'] },
+  { code: 'pa', iso6393: 'pan', name: 'Punjabi', flag: '🇮🇳', tokens: ['PUNJABI'] },
+  { code: 'bn', iso6393: 'ben', name: 'Bengali', flag: '🇧🇩', tokens: ['BENGALI', 'BANGLA'] },
+  { code: 'ur', iso6393: 'urd', name: 'Urdu', flag: '🇵🇰', tokens: ['URDU', 'URD'] },
+  { code: 'pl', iso6393: 'pol', name: 'Polish', flag: '🇵🇱', tokens: ['POLISH', 'POLSKI', 'LEKTOR', 'POL', 'PL'] },
+  { code: 'ar', iso6393: 'ara', name: 'Arabic', flag: '🇸🇦', tokens: ['ARABIC', 'ARA'] },
+  { code: 'tr', iso6393: 'tur', name: 'Turkish', flag: '🇹🇷', tokens: ['TURKISH', 'TURKCE', 'TUR'] },
+  { code: 'th', iso6393: 'tha', name: 'Thai', flag: '🇹🇭', tokens: ['THAI', 'THA'] },
+  { code: 'vi', iso6393: 'vie', name: 'Vietnamese', flag: '🇻🇳', tokens: ['VIETNAMESE'] },
+  { code: 'id', iso6393: 'ind', name: 'Indonesian', flag: '🇮🇩', tokens: ['INDONESIAN'] },
+  { code: 'ms', iso6393: 'msa', iso6392b: 'may', name: 'Malay', flag: '🇲🇾', tokens: ['MALAY'] },
+  { code: 'tl', iso6393: 'tgl', name: 'Tagalog', flag: '🇵🇭', tokens: ['TAGALOG', 'FILIPINO'] },
+  { code: 'nl', iso6393: 'nld', iso6392b: 'dut', name: 'Dutch', flag: '🇳🇱', tokens: ['DUTCH', 'NEDERLANDS', 'FLEMISH', 'DUT', 'NLD'] },
+  { code: 'sv', iso6393: 'swe', name: 'Swedish', flag: '🇸🇪', tokens: ['SWEDISH', 'SWE'] },
+  { code: 'no', iso6393: 'nor', name: 'Norwegian', flag: '🇳🇴', tokens: ['NORWEGIAN'] },
+  { code: 'da', iso6393: 'dan', name: 'Danish', flag: '🇩🇰', tokens: ['DANISH'] },
+  { code: 'fi', iso6393: 'fin', name: 'Finnish', flag: '🇫🇮', tokens: ['FINNISH'] },
+  { code: 'is', iso6393: 'isl', iso6392b: 'ice', name: 'Icelandic', flag: '🇮🇸', tokens: ['ICELANDIC'] },
+  { code: 'cs', iso6393: 'ces', iso6392b: 'cze', name: 'Czech', flag: '🇨🇿', tokens: ['CZECH', 'CZE'] },
+  { code: 'sk', iso6393: 'slk', iso6392b: 'slo', name: 'Slovak', flag: '🇸🇰', tokens: ['SLOVAK'] },
+  { code: 'hu', iso6393: 'hun', name: 'Hungarian', flag: '🇭🇺', tokens: ['HUNGARIAN', 'HUN'] },
+  { code: 'ro', iso6393: 'ron', iso6392b: 'rum', name: 'Romanian', flag: '🇷🇴', tokens: ['ROMANIAN'] },
+  { code: 'bg', iso6393: 'bul', name: 'Bulgarian', flag: '🇧🇬', tokens: ['BULGARIAN', 'BUL'] },
+  { code: 'el', iso6393: 'ell', iso6392b: 'gre', name: 'Greek', flag: '🇬🇷', tokens: ['GREEK', 'GRE'] },
+  { code: 'uk', iso6393: 'ukr', name: 'Ukrainian', flag: '🇺🇦', tokens: ['UKRAINIAN', 'UKR'] },
+  { code: 'hr', iso6393: 'hrv', name: 'Croatian', flag: '🇭🇷', tokens: ['CROATIAN', 'HRV'] },
+  { code: 'sr', iso6393: 'srp', name: 'Serbian', flag: '🇷🇸', tokens: ['SERBIAN', 'SRP'] },
+  { code: 'lt', iso6393: 'lit', name: 'Lithuanian', flag: '🇱🇹', tokens: ['LITHUANIAN'] },
+  { code: 'he', iso6393: 'heb', name: 'Hebrew', flag: '🇮🇱', tokens: ['HEBREW', 'HEB'] },
+  { code: 'fa', iso6393: 'fas', iso6392b: 'per', name: 'Persian', flag: '🇮🇷', tokens: ['PERSIAN', 'FARSI'] },
+];
+
+// Language component by position in the preferred languages list: the first language 1, fallbacks less; the last
+// entry applies to all later positions
+export const LANGUAGE_FALLBACK_SCORES = [1, 0.8, 0.65, 0.5];
+
+// Release name parser rules (see utils/parserRules.ts). Bundled rules are compiled here; configureParserRules
+// (metadataParser.ts) applies PARSER_RULES_FILE overrides by updating REGEX_PATTERNS, COMMON_TRASH_TERMS and
+// QUALITY_RANK_MAP in place, so importers always see the active rules.
+export const BUNDLED_PARSER_RULES = bundledParserRules as ParserRules;
+export const LANGUAGE_TOKENS = LANGUAGE_TABLE.flatMap(language => language.tokens);
+const COMPILED_PARSER_RULES = compileParserRules(BUNDLED_PARSER_RULES, LANGUAGE_TOKENS);
+
 // Regex patterns for metadata parsing from torrent titles.
 // Order of application might matter. Case-insensitive.
-export const REGEX_PATTERNS = {
-  YEAR: /\b((?:19[89]|20[0-2])\d)\b/g, // Years 1980-2029. Consider expanding range or making dynamic.
-  RESOLUTION: /\b(4K|2160p|1080p|720p|576p|480p|360p|SD)\b/ig, // Added 4K explicitly
-  QUALITY_SOURCE: /\b(BluRay|Blu-Ray|BDRip|BRRip|WEB-DL|WEBDL|WEB-Rip|WEBRIP|WEB|HDRip|DVDRip|DVD-R|DVDScr|SCREENER|SCR|TS|TELESYNC|TC|TELECINE|CAM|HDTV|PDTV|SATRip|DSR|REMUX|Complete|REPACK|PROPER)\b/ig, // Added WEB, WEBRIP
-  VIDEO_CODEC: /\b(x26[45]|H\.?26[45]|HEVC|AV1|AVC|XViD|DiVX|VP9)\b/ig, // Added VP9
-  AUDIO_CODEC: /\b(Atmos|TrueHD|DTS-HD(?:[\s.]?MA)?|DTS(?:-ES|-EX|-X)?|Dolby Digital Plus|DD\+|EAC3|AC3|AAC(?:-LC|-HE)?|MP3|Opus|FLAC|PCM|Vorbis|DD\+?P?5\.1|DD\+?P?7\.1|5\.1|7\.1|2\.0|LiNE|AUD|STEREO)\b/ig, // More comprehensive audio
-  HDR: /\b(HDR10(?:Plus|\+)?|HDR|Dolby Vision|DV|HLG)\b/ig, // Added HLG
-  THREE_D: /\b(3D)\b/ig,
-  LANGUAGES: /\b(English|ENG|Spanish|SPA|ESP|French|FRE|FRA|FR|German|GER|DEU|DE|Italian|ITA|IT|Russian|RUS|RU|Japanese|JPN|JP|Korean|KOR|KO|Chinese|CHI|ZH|Mandarin|Cantonese|Hindi|HIN|HI|Tamil|TAM|TA|Telugu|TEL|TE|Malayalam|MAL|ML|Dual[\s.]Audio|Multi[\s.]Audio|VOSTFR|SUBFRENCH|ENGSUB|SUBBED)\b/ig, // Added shorter lang codes and sub variants
-  SEASON_EPISODE: /[Ss](\d{1,3})[Ee](\d{1,4})(?:-[Ee]?(\d{1,4}))?|[Ss](\d{1,3})(?!\d|p|K)|[Ee][Pp]?(\d{1,4})(?!\d|p|K)|PART\.?(\d{1,2})/gi, // S01E01, S01E01-E02, S01, E01, Part.01. More robust, avoids matching resolution like 1080p.
-  RELEASE_GROUP: /(?:^|[\s.\-_\[])([a-zA-Z0-9]+(?:-[a-zA-Z0-9]+)?)$/i, // Tries to get group from very end if alphanumeric, possibly with one hyphen.
-  SIZE: /(\d+(?:\.\d+)?)\s*(TB|GB|MB|KB|TiB|GiB|MiB|KiB)/ig, // Added Terabytes
-};
+export const REGEX_PATTERNS: Record<ParserPatternName, RegExp> = COMPILED_PARSER_RULES.patterns;
 
 // Emojis for formatting stream titles
 export const EMOJIS = {
@@ -40,51 +200,23 @@ export const EMOJIS = {
   HDR: '✨',
   MAGNET: '🧲',
   EPISODE: '🎞️', // For S/E info
+  SCORE: '📊', // Score breakdown (showScoreBreakdown)
+  WARNING: '⚠️', // Not playable on the configured device
+  EDITION: '🏷️', // Extended, Director's Cut...
+  SUBTITLES: '💬',
+  RELEASE_GROUP: '👥',
+  PREFERRED: '⭐', // Release by a preferred group
 };
 
-// Map common quality terms to a standardized rank/term
-// Ensure keys are UPPERCASE and normalized (e.g., no hyphens if regex removes them for matching)
-export const QUALITY_RANK_MAP: Record<string, VideoQualityRank> = {
-  // 2160p / 4K
-  '2160P BLURAY': VideoQualityRank.UHD_BLURAY, '4K BLURAY': VideoQualityRank.UHD_BLURAY,
-  '2160P REMUX': VideoQualityRank.UHD_BLURAY, '4K REMUX': VideoQualityRank.UHD_BLURAY,
-  '2160P WEB-DL': VideoQualityRank.WEBDL_2160P, '2160P WEBDL': VideoQualityRank.WEBDL_2160P,
-  '4K WEB-DL': VideoQualityRank.WEBDL_2160P, '4K WEBDL': VideoQualityRank.WEBDL_2160P,
-  '2160P WEB': VideoQualityRank.WEBDL_2160P, '4K WEB': VideoQualityRank.WEBDL_2160P,
-  '2160P WEBRIP': VideoQualityRank.WEBDL_2160P, '4K WEBRIP': VideoQualityRank.WEBDL_2160P,
-  // 1080p
-  '1080P BLURAY': VideoQualityRank.BLURAY_1080P,
-  '1080P REMUX': VideoQualityRank.BLURAY_1080P,
-  '1080P WEB-DL': VideoQualityRank.WEBDL_1080P, '1080P WEBDL': VideoQualityRank.WEBDL_1080P,
-  '1080P WEB': VideoQualityRank.WEBDL_1080P, '1080P WEBRIP': VideoQualityRank.WEBDL_1080P,
-  '1080P BDRIP': VideoQualityRank.BLURAY_1080P, '1080P BRRIP': VideoQualityRank.BLURAY_1080P,
-  '1080P HDTV': VideoQualityRank.HDTV_1080P,
-  // 720p
-  '720P BLURAY': VideoQualityRank.BLURAY_720P,
-  '720P REMUX': VideoQualityRank.BLURAY_720P,
-  '720P WEB-DL': VideoQualityRank.WEBDL_720P, '720P WEBDL': VideoQualityRank.WEBDL_720P,
-  '720P WEB': VideoQualityRank.WEBDL_720P, '720P WEBRIP': VideoQualityRank.WEBDL_720P,
-  '720P BDRIP': VideoQualityRank.BLURAY_720P, '720P BRRIP': VideoQualityRank.BLURAY_720P,
-  '720P HDTV': VideoQualityRank.HDTV_720P,
-  // DVD / SD
-  'DVDRIP': VideoQualityRank.DVD, 'DVD-R': VideoQualityRank.DVD,
-  '480P DVD': VideoQualityRank.DVD, '576P DVD': VideoQualityRank.DVD, // Specific for DVD source at SD
-  '480P BDRIP': VideoQualityRank.DVD, '576P BDRIP': VideoQualityRank.DVD, // SD BDRips are from DVD equivalent
-  '480P': VideoQualityRank.SD, '576P': VideoQualityRank.SD, 'SD': VideoQualityRank.SD,
-  // Low Quality
-  'DVDSCR': VideoQualityRank.LOW_QUALITY, 'SCREENER': VideoQualityRank.LOW_QUALITY, 'SCR': VideoQualityRank.LOW_QUALITY,
-  'TS': VideoQualityRank.LOW_QUALITY, 'TELESYNC': VideoQualityRank.LOW_QUALITY,
-  'TC': VideoQualityRank.LOW_QUALITY, 'TELECINE': VideoQualityRank.LOW_QUALITY,
-  'CAM': VideoQualityRank.LOW_QUALITY, 'CAMRIP': VideoQualityRank.LOW_QUALITY,
-  // Default for general terms (these are broad, specific resolution+source is better)
-  'BLURAY': VideoQualityRank.BLURAY_1080P, // Assume 1080p if only BluRay specified
-  'WEB-DL': VideoQualityRank.WEBDL_1080P, 'WEBDL': VideoQualityRank.WEBDL_1080P, // Assume 1080p
-  'WEB': VideoQualityRank.WEBDL_1080P, 'WEBRIP': VideoQualityRank.WEBDL_1080P,
-  'BDRIP': VideoQualityRank.BLURAY_720P, 'BRRIP': VideoQualityRank.BLURAY_720P, // Assume 720p for generic BDRip
-  'HDTV': VideoQualityRank.HDTV_720P, // Assume 720p
-  'UNKNOWN': VideoQualityRank.UNKNOWN,
+// Display names of normalized codec/format names (see AudioTrack, HdrFormat, deviceCompatibility.ts)
+export const FORMAT_DISPLAY_NAMES: Record<string, string> = {
+  DV: 'Dolby Vision', TRUEHD: 'TrueHD', EAC3: 'DD+', AC3: 'DD', MPEG4: 'XviD/DivX',
 };
 
+// Map common quality terms to a standardized rank/term
+// Keys are UPPERCASE and normalized (e.g., no hyphens if regex removes them for matching)
+export const QUALITY_RANK_MAP: Record<string, VideoQualityRank> = COMPILED_PARSER_RULES.qualityRanks;
+
 // List of terms indicating low quality (case-insensitive matching will be used)
 export const LOW_QUALITY_TERMS = ['CAM', 'CAMRIP', 'TS', 'TELESYNC', 'TC', 'TELECINE', 'SCR', 'SCREENER', 'DVDSCR', 'PDVD'];
 // Resolutions considered low quality if no better alternatives exist (case-insensitive)
@@ -107,33 +239,5 @@ export const FALLBACK_TRACKERS = [
   "udp://public.popcorn-tracker.org:6969/announce",
 ];
 
-// Language code mapping (simple). Keys should be uppercase.
-export const LANGUAGE_MAP: Record<string, string> = {
-  ENG: "English", ENGLISH: "English", EN: "English",
-  SPA: "Spanish", ESPANOL: "Spanish", ESP: "Spanish", ES: "Spanish",
-  FRE: "French", FRENCH: "French", FRA: "French", FR: "French",
-  GER: "German", GERMAN: "German", DEU: "German", DE: "German",
-  ITA: "Italian", ITALIAN: "Italian", IT: "Italian",
-  RUS: "Russian", RUSSIAN: "Russian", RU: "Russian",
-  JPN: "Japanese", JAPANESE: "Japanese", JP: "Japanese",
-  KOR: "Korean", KOREAN: "Korean", KO: "Korean",
-  CHI: "Chinese", CHINESE: "Chinese", ZH: "Chinese",
-  HIN: "Hindi", HINDI: "Hindi", HI: "Hindi",
-  TAM: "Tamil", TA: "Tamil",
-  TEL: "Telugu", TE: "Telugu",
-  MAL: "Malayalam", ML: "Malayalam",
-  DUALAUDIO: "Dual Audio", MULTIAUDIO: "Multi Audio", DUAL: "Dual Audio", MULTI: "Multi Audio",
-  VOSTFR: "French (VOSTFR)", SUBFRENCH: "French (Subbed)", ENGSUB:"English Subtitles", SUBBED:"Subbed"
-};
-
-// Common terms to remove from titles after primary metadata extraction.
-// These regexes are designed to match whole words/terms.
-export const COMMON_TRASH_TERMS = [
-    'REQ', 'REQUEST', 'RARBG', /*'EXTREME',*/ 'PROPER', 'REPACK', 'REAL', 'FINAL',
-    'UNRATED', 'DIRECTORS CUT', 'EXTENDED', 'LIMITED', 'CRITERION', 'COLLECTION',
-    'INTERNAL', 'COMPLETE', 'SUBBED', 'SUBS', 'SUBTITLE', 'SUBTITLES',
-    '\\[[a-zA-Z0-9\\s\\-]+\\]' // Generic bracketed content e.g. [HorribleSubs], [Team-Name]
-].map(term => {
-    if (term.startsWith('\\[')) return new RegExp(term, 'ig'); // Already a regex string
-    return new RegExp(`\\b${term}\\b`, 'ig');
-});
+// Common terms to remove from titles after primary metadata extraction (trashWords and trashPatterns of the rules).
+export const COMMON_TRASH_TERMS: RegExp[] = COMPILED_PARSER_RULES.trashTerms;
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { IMDB_INDEX_FORMAT_VERSION } from '../services/imdbDatasetProvider';
+import { importImdbDataset } from './importImdbDataset';
+
+describe('importImdbDataset', () => {
+  let workDir: string;
+  let basics: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'import-imdb-'));
+    basics = path.join(workDir, 'title.basics.tsv');
+    await fs.writeFile(basics, 'tconst\ttitleType\tprimaryTitle\tstartYear\ntt0000001\tmovie\tMovie\t2020\ntt0000002\ttvEpisode\tEpisode\t2020\n');
+  });
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const readInfo = async (dir: string) => JSON.parse(await fs.readFile(path.join(dir, 'index.json'), 'utf8'));
+
+  it('writes a new index, and replaces a previous one', async () => {
+    const out = path.join(workDir, 'index');
+    expect(await importImdbDataset({ basics, out })).toMatchObject({ formatVersion: IMDB_INDEX_FORMAT_VERSION, titleCount: 1 });
+    await fs.writeFile(path.join(out, 'stale-file'), '');
+    await importImdbDataset({ basics, out });
+    expect(await readInfo(out)).toMatchObject({ titleCount: 1 });
+    await expect(fs.access(path.join(out, 'stale-file'))).rejects.toThrow();
+  });
+
+  it('uses an empty directory', async () => {
+    const out = path.join(workDir, 'empty');
+    await fs.mkdir(out);
+    await importImdbDataset({ basics, out });
+    expect(await readInfo(out)).toMatchObject({ titleCount: 1 });
+  });
+
+  it('refuses to replace a directory that is not an index, and leaves it alone', async () => {
+    const out = path.join(workDir, 'other');
+    await fs.mkdir(out);
+    await fs.writeFile(path.join(out, 'notes.txt'), 'keep me');
+    await expect(importImdbDataset({ basics, out })).rejects.toThrow('Refusing to replace');
+    expect(await fs.readFile(path.join(out, 'notes.txt'), 'utf8')).toBe('keep me');
+
+    await fs.writeFile(path.join(out, 'index.json'), JSON.stringify({ formatVersion: IMDB_INDEX_FORMAT_VERSION + 1 }));
+    await expect(importImdbDataset({ basics, out })).rejects.toThrow('Refusing to replace');
+    expect(await fs.readdir(workDir)).toEqual(expect.arrayContaining(['other', 'title.basics.tsv']));
+    expect(await fs.readdir(workDir)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,186 @@
+// Builds the offline IMDb title index used by the 'imdb-dataset' metadata provider.
+//
+// Usage:
+//   npm run import-imdb -- --basics title.basics.tsv.gz [--akas title.akas.tsv.gz] --out ./data/imdb-index
+//
+// Inputs are IMDb's TSV dumps (https://developer.imdb.com/non-commercial-datasets/), plain or gzipped.
+// A trimmed file works too as long as it keeps the header row; columns are located by name, so only
+// `tconst`, `titleType` and `primaryTitle` are required in basics, and `titleId` and `title` in akas.
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { createGunzip } from 'zlib';
+import { StremioItemType } from '../types';
+import {
+  IMDB_INDEX_FORMAT_VERSION,
+  ImdbIndexInfo,
+  ImdbIndexRecord,
+  getImdbShardName,
+  getImdbShardPath,
+} from '../services/imdbDatasetProvider';
+
+// IMDb titleType -> Stremio type. Everything else (episodes, shorts, video games...) is skipped.
+const TITLE_TYPES: Record<string, StremioItemType> = {
+  movie: 'movie',
+  tvMovie: 'movie',
+  tvSeries: 'series',
+  tvMiniSeries: 'series',
+};
+const MAX_AKAS_PER_TITLE = 30;
+const NULL_VALUE = '\\N'; // IMDb's marker for missing values
+
+interface ImportOptions {
+  basics: string;
+  akas?: string;
+  out: string;
+}
+
+const parseArgs = (argv: string[]): ImportOptions => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  if (!args.basics || !args.out) {
+    throw new Error('Usage: import-imdb --basics <title.basics.tsv[.gz]> [--akas <title.akas.tsv[.gz]>] --out <index dir>');
+  }
+  return { basics: args.basics, akas: args.akas, out: args.out };
+};
+
+// Streams a (possibly gzipped) TSV file, calling onRow with a column-name -> value lookup for every data row.
+const readTsv = async (file: string, onRow: (get: (column: string) => string | undefined) => void): Promise<number> => {
+  const input = createReadStream(file);
+  const lines = readline.createInterface({
+    input: file.endsWith('.gz') ? input.pipe(createGunzip()) : input,
+    crlfDelay: Infinity,
+  });
+  let columns: Record<string, number> | undefined;
+  let rows = 0;
+  for await (const line of lines) {
+    if (!line) continue;
+    const cells = line.split('\t');
+    if (!columns) {
+      columns = Object.fromEntries(cells.map((name, index) => [name.trim(), index]));
+      continue;
+    }
+    const get = (column: string): string | undefined => {
+      const index = columns![column];
+      const value = index === undefined ? undefined : cells[index];
+      return value === undefined || value === NULL_VALUE || value === '' ? undefined : value;
+    };
+    onRow(get);
+    rows++;
+  }
+  return rows;
+};
+
+const toInt = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// The output directory is deleted and replaced by the new index, so it must be missing, empty or a previous index
+// (an index.json in the current format). Anything else is most likely a mistyped --out, and is left alone.
+const assertReplaceableOutDir = async (outDir: string): Promise<void> => {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(outDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw new Error(`Cannot use ${outDir} as the index directory: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (entries.length === 0) return;
+  let info: Partial<ImdbIndexInfo> | undefined;
+  try {
+    info = JSON.parse(await fs.readFile(path.join(outDir, 'index.json'), 'utf8'));
+  } catch {
+    info = undefined;
+  }
+  if (info?.formatVersion !== IMDB_INDEX_FORMAT_VERSION) {
+    throw new Error(`Refusing to replace ${outDir}: it is not empty and does not hold an IMDb index (format version ${IMDB_INDEX_FORMAT_VERSION}). Choose another --out or remove it yourself.`);
+  }
+};
+
+export const importImdbDataset = async (options: ImportOptions): Promise<ImdbIndexInfo> => {
+  const outDir = path.resolve(options.out);
+  await assertReplaceableOutDir(outDir); // Before the (slow) import, so a wrong --out fails right away
+
+  const records = new Map<string, ImdbIndexRecord>();
+
+  console.log(`[importImdb] Reading basics from ${options.basics}...`);
+  const basicsRows = await readTsv(options.basics, (get) => {
+    const id = get('tconst');
+    const type = TITLE_TYPES[get('titleType') || ''];
+    const title = get('primaryTitle');
+    if (!id || !type || !title) return;
+    const originalTitle = get('originalTitle');
+    records.set(id, {
+      type,
+      title,
+      originalTitle: originalTitle && originalTitle !== title ? originalTitle : undefined,
+      startYear: toInt(get('startYear')),
+      runtimeMinutes: toInt(get('runtimeMinutes')),
+    });
+  });
+  console.log(`[importImdb] Kept ${records.size} of ${basicsRows} titles.`);
+
+  let akaCount = 0;
+  if (options.akas) {
+    console.log(`[importImdb] Reading AKAs from ${options.akas}...`);
+    await readTsv(options.akas, (get) => {
+      const id = get('titleId');
+      const aka = get('title');
+      const record = id ? records.get(id) : undefined;
+      if (!record || !aka || aka === record.title || aka === record.originalTitle) return;
+      const akas = record.akas || (record.akas = []);
+      if (akas.length < MAX_AKAS_PER_TITLE && !akas.includes(aka)) {
+        akas.push(aka);
+        akaCount++;
+      }
+    });
+    console.log(`[importImdb] Attached ${akaCount} AKAs.`);
+  }
+
+  // Group into shards, then write everything into a temp dir and swap it in so a running server never sees a half-written index.
+  const shards = new Map<string, Record<string, ImdbIndexRecord>>();
+  for (const [id, record] of records) {
+    const shardName = getImdbShardName(id);
+    const shard = shards.get(shardName) || {};
+    shard[id] = record;
+    shards.set(shardName, shard);
+  }
+
+  const tempDir = `${outDir}.tmp-${process.pid}`;
+  await fs.rm(tempDir, { recursive: true, force: true });
+  await fs.mkdir(path.join(tempDir, 'shards'), { recursive: true });
+  for (const [shardName, shard] of shards) {
+    await fs.writeFile(getImdbShardPath(tempDir, shardName), JSON.stringify(shard));
+  }
+  const info: ImdbIndexInfo = {
+    formatVersion: IMDB_INDEX_FORMAT_VERSION,
+    importedAt: new Date().toISOString(),
+    titleCount: records.size,
+    akaCount,
+    sources: [options.basics, options.akas].filter(Boolean).map(file => path.basename(file as string)),
+  };
+  await fs.writeFile(path.join(tempDir, 'index.json'), JSON.stringify(info, null, 2));
+  await assertReplaceableOutDir(outDir).catch(async error => { // Again, in case it changed during the import
+    await fs.rm(tempDir, { recursive: true, force: true });
+    throw error;
+  });
+  await fs.rm(outDir, { recursive: true, force: true });
+  await fs.rename(tempDir, outDir);
+
+  console.log(`[importImdb] Wrote ${records.size} titles in ${shards.size} shards to ${outDir}.`);
+  return info;
+};
+
+if (require.main === module) {
+  importImdbDataset(parseArgs(process.argv.slice(2))).catch(error => {
+    console.error(`[importImdb] Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,8 @@
+import bundledCorpus from '../rules/parserCorpus.json';
+import { diffParsedMetadata } from './parserCorpus';
+
+describe('parser regression corpus', () => {
+  it.each(bundledCorpus.map(entry => [entry.title, entry] as const))('parses %s as expected', (_title, entry) => {
+    expect(diffParsedMetadata(entry as Parameters<typeof diffParsedMetadata>[0])).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+// Runs the release name parser against a corpus of release names with expected metadata and reports every field
+// that comes out differently. Run it after changing parser rules or parser code.
+//
+// Usage:
+//   npm run parser-corpus -- [--corpus corpus.json] [--rules parserRules.override.json]
+//
+// The corpus is a JSON array of { "title": "<release name>", "expected": { <ParsedMetadata fields> } }; the bundled
+// one is src/rules/parserCorpus.json. Only the listed fields are checked, and null means "must be unset".
+// --rules applies an override file the way PARSER_RULES_FILE does, to try it before deploying.
+// Exits with 1 if any field differs.
+
+import { promises as fs } from 'fs';
+import { ParsedMetadata } from '../types';
+import { configureParserRules, parseTorrentTitle } from '../services/metadataParser';
+import bundledCorpus from '../rules/parserCorpus.json';
+
+interface CorpusEntry {
+  title: string;
+  expected: { [K in keyof ParsedMetadata]?: ParsedMetadata[K] | null };
+}
+
+interface CorpusOptions {
+  corpus?: string;
+  rules?: string;
+}
+
+interface FieldDiff {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+const parseArgs = (argv: string[]): CorpusOptions => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return { corpus: args.corpus, rules: args.rules };
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+  }
+  return false;
+};
+
+const show = (value: unknown): string => value === undefined ? 'unset' : JSON.stringify(value);
+
+export const diffParsedMetadata = (entry: CorpusEntry): FieldDiff[] => {
+  const parsed = parseTorrentTitle(entry.title) as unknown as Record<string, unknown>;
+  return Object.entries(entry.expected)
+    .map(([field, expected]) => ({ field, expected: expected ?? undefined, actual: parsed[field] }))
+    .filter(({ expected, actual }) => !isEqual(expected, actual));
+};
+
+export const runParserCorpus = async (options: CorpusOptions): Promise<number> => {
+  if (options.rules) configureParserRules({ rulesFile: options.rules });
+  const corpus: CorpusEntry[] = options.corpus
+    ? JSON.parse(await fs.readFile(options.corpus, 'utf8'))
+    : bundledCorpus as CorpusEntry[];
+
+  let failedReleases = 0;
+  let fieldDiffs = 0;
+  for (const entry of corpus) {
+    const diffs = diffParsedMetadata(entry);
+    if (diffs.length === 0) continue;
+    failedReleases++;
+    fieldDiffs += diffs.length;
+    console.log(entry.title);
+    for (const diff of diffs) {
+      console.log(`    ${diff.field}: expected ${show(diff.expected)}, got ${show(diff.actual)}`);
+    }
+  }
+  console.log(`[parserCorpus] ${corpus.length - failedReleases}/${corpus.length} releases parsed as expected` +
+    (fieldDiffs > 0 ? ` (${fieldDiffs} field differences in ${failedReleases} releases).` : '.'));
+  return fieldDiffs;
+};
+
+if (require.main === module) {
+  runParserCorpus(parseArgs(process.argv.slice(2))).then(diffs => {
+    if (diffs > 0) process.exit(1);
+  }).catch(error => {
+    console.error(`[parserCorpus] Run failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
+}
@@ -3,8 +3,17 @@ import express from 'express';
 // Use 'import type' for type-only imports from Express
 import type { Request, Response, NextFunction } from 'express';
 import { processStreamRequest } from './services/addonService';
-import { AddonConfig, SortPreference, StremioItemType, StremioRequestType } from './types';
-import { APP_VERSION } from './constants'; // APP_VERSION is from constants
+import { AddonConfig, BitmagnetEndpointConfig, DeviceProfileName, MetadataProviderName, ReleaseGroupRules, ResolutionTier, ScoringWeights, SizeBounds, SortPreference, StremioItemType, StremioRequestType, StremioStreamResponse } from './types';
+import { APP_VERSION, BUNDLED_PARSER_RULES, DEFAULT_SCORING_WEIGHTS, DEFAULT_STREAM_CACHE_MAX_ENTRIES, DEFAULT_SIZE_BOUNDS, DEVICE_PROFILES } from './constants'; // APP_VERSION is from constants
+import { decodeUserConfig, encodeUserConfig, mergeUserConfig, UserConfig } from './utils/userConfig';
+import { findLanguage } from './utils/languages';
+import { renderConfigurePage } from './views/configurePage';
+import { DEFAULT_BITMAGNET_SCHEMA_PROFILE } from './services/bitmagnetSchemas';
+import { DEFAULT_BITMAGNET_RESILIENCE, DEFAULT_BITMAGNET_SEARCH_BUDGET } from './services/bitmagnetService';
+import { getBitmagnetEndpointStats, getEndpointName, resolveBitmagnetEndpoints } from './services/bitmagnetFederation';
+import { buildStreamCacheKey, configureStreamCache, getCachedStreamResponse } from './services/streamCache';
+import { configureAnimeMapping } from './services/animeMapping';
+import { configureParserRules } from './services/metadataParser';
 
 const app = express();
 
@@ -15,19 +24,185 @@ const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
 const ADDON_SERVER_ID = 'com.yourname.stremio.bitmagnet2.server'; // Customize this
 const ADDON_SERVER_NAME = 'Bitmagnet 2'; // Customize this
 
+// BITMAGNET_ENDPOINTS: JSON array of { name?, url, apiKey?, schemaProfile?, timeoutMs?, priority? } for federated search.
+const parseBitmagnetEndpoints = (raw?: string): BitmagnetEndpointConfig[] | undefined => {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed) || parsed.some(e => !e || typeof e.url !== 'string' || !e.url)) {
+      throw new Error('expected an array of objects with a "url" string');
+    }
+    return parsed;
+  } catch (error) {
+    console.error(`CRITICAL: BITMAGNET_ENDPOINTS is invalid (${error instanceof Error ? error.message : String(error)}). Ignoring it.`);
+    return undefined;
+  }
+};
+
+// SCORING_WEIGHTS: JSON object overriding some or all default weights, e.g. {"seeders": 30, "hdr": 0}.
+const parseScoringWeights = (raw?: string): ScoringWeights => {
+  if (!raw) return DEFAULT_SCORING_WEIGHTS;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('expected a JSON object');
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!(key in DEFAULT_SCORING_WEIGHTS)) throw new Error(`unknown component "${key}"`);
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new Error(`"${key}" must be a non-negative number`);
+    }
+    return { ...DEFAULT_SCORING_WEIGHTS, ...parsed };
+  } catch (error) {
+    console.error(`SCORING_WEIGHTS is invalid (${error instanceof Error ? error.message : String(error)}). Using the default weights.`);
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+};
+
+// SIZE_BOUNDS: JSON object overriding the bounds of some tiers, e.g. {"2160p": {"minGBPerHour": 3, "maxGBPerHour": 15}}.
+const parseSizeBounds = (raw?: string): Record<ResolutionTier, SizeBounds> => {
+  if (!raw) return DEFAULT_SIZE_BOUNDS;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('expected a JSON object');
+    const bounds = { ...DEFAULT_SIZE_BOUNDS };
+    for (const [tier, value] of Object.entries(parsed as Record<string, unknown>)) {
+      if (!(tier in DEFAULT_SIZE_BOUNDS)) throw new Error(`unknown resolution tier "${tier}"`);
+      const { minGBPerHour, maxGBPerHour } = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+      if (typeof minGBPerHour !== 'number' || typeof maxGBPerHour !== 'number' || minGBPerHour > maxGBPerHour) {
+        throw new Error(`"${tier}" must have numeric minGBPerHour <= maxGBPerHour`);
+      }
+      bounds[tier as ResolutionTier] = { minGBPerHour, maxGBPerHour };
+    }
+    return bounds;
+  } catch (error) {
+    console.error(`SIZE_BOUNDS is invalid (${error instanceof Error ? error.message : String(error)}). Using the default bounds.`);
+    return DEFAULT_SIZE_BOUNDS;
+  }
+};
+
+const parseDeviceProfile = (raw?: string): DeviceProfileName | undefined => {
+  if (!raw) return undefined;
+  const name = raw.trim().toLowerCase();
+  if (name in DEVICE_PROFILES) return name as DeviceProfileName;
+  console.error(`DEVICE_PROFILE '${raw}' is unknown (known: ${Object.keys(DEVICE_PROFILES).join(', ')}). Not checking device compatibility.`);
+  return undefined;
+};
+
+// Integer settings (STREAM_CACHE_MAX_ENTRIES, BITMAGNET_RETRIES, ...): at least `min`, 0 unless stated otherwise.
+// parseInt would let NaN through, which never triggers LRU eviction, never ends the retry loop and never opens the breaker.
+const parseIntegerEnv = (name: string, fallback: number, min = 0): number => {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw.trim());
+  if (Number.isInteger(value) && value >= min) return value;
+  console.error(`${name} '${raw}' is not an integer >= ${min}. Using ${fallback}.`);
+  return fallback;
+};
+
+// PREFERRED_LANGUAGES: comma-separated, most wanted first ("pt-BR,en"); codes, names or scene tokens
+const parsePreferredLanguages = (raw?: string): string[] | undefined => {
+  if (!raw) return undefined;
+  const codes: string[] = [];
+  for (const value of raw.split(',').map(v => v.trim()).filter(Boolean)) {
+    const language = findLanguage(value);
+    if (language) codes.push(language.code);
+    else console.error(`PREFERRED_LANGUAGES: unknown language '${value}', ignored.`);
+  }
+  return codes.length > 0 ? Array.from(new Set(codes)) : undefined;
+};
+
+// RELEASE_GROUPS_ALLOW, RELEASE_GROUPS_PREFER, RELEASE_GROUPS_BLOCK: comma-separated group names ("FraMeSToR,FLUX").
+// RELEASE_GROUP_ALIASES: JSON object of canonical name -> other names, e.g. {"FraMeSToR": ["FRMSTR"]}.
+const parseReleaseGroups = (env: NodeJS.ProcessEnv): ReleaseGroupRules | undefined => {
+  const list = (raw?: string) => {
+    const names = (raw || '').split(',').map(name => name.trim()).filter(Boolean);
+    return names.length > 0 ? names : undefined;
+  };
+  const rules: ReleaseGroupRules = {
+    allow: list(env.RELEASE_GROUPS_ALLOW),
+    prefer: list(env.RELEASE_GROUPS_PREFER),
+    block: list(env.RELEASE_GROUPS_BLOCK),
+  };
+  if (env.RELEASE_GROUP_ALIASES) {
+    try {
+      const parsed = JSON.parse(env.RELEASE_GROUP_ALIASES);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('expected a JSON object');
+      for (const [group, aliases] of Object.entries(parsed)) {
+        if (!Array.isArray(aliases) || !aliases.every(alias => typeof alias === 'string')) {
+          throw new Error(`"${group}" must be an array of names`);
+        }
+      }
+      rules.aliases = parsed;
+    } catch (error) {
+      console.error(`RELEASE_GROUP_ALIASES is invalid (${error instanceof Error ? error.message : String(error)}). Ignoring aliases.`);
+    }
+  }
+  return rules.allow || rules.prefer || rules.block || rules.aliases ? rules : undefined;
+};
+
 // --- Addon Configuration ---
 // Load configuration from environment variables or defaults
 const addonConfig: AddonConfig = {
   bitmagnetPublicGraphQLEndpoint: process.env.BITMAGNET_GRAPHQL_ENDPOINT || '',
+  // 'torrentContent' (real Bitmagnet schema) or 'generic' (legacy hand-adapted searchContent query)
+  bitmagnetSchemaProfile: (process.env.BITMAGNET_SCHEMA_PROFILE || DEFAULT_BITMAGNET_SCHEMA_PROFILE) as AddonConfig['bitmagnetSchemaProfile'],
+  bitmagnetEndpoints: parseBitmagnetEndpoints(process.env.BITMAGNET_ENDPOINTS),
+  bitmagnetResilience: {
+    retries: parseIntegerEnv('BITMAGNET_RETRIES', DEFAULT_BITMAGNET_RESILIENCE.retries),
+    retryBaseDelayMs: parseIntegerEnv('BITMAGNET_RETRY_BASE_DELAY_MS', DEFAULT_BITMAGNET_RESILIENCE.retryBaseDelayMs),
+    retryMaxDelayMs: parseIntegerEnv('BITMAGNET_RETRY_MAX_DELAY_MS', DEFAULT_BITMAGNET_RESILIENCE.retryMaxDelayMs),
+    // A threshold of 0 would open the circuit before the first request
+    breakerFailureThreshold: parseIntegerEnv('BITMAGNET_BREAKER_THRESHOLD', DEFAULT_BITMAGNET_RESILIENCE.breakerFailureThreshold, 1),
+    breakerCooldownMs: parseIntegerEnv('BITMAGNET_BREAKER_COOLDOWN_MS', DEFAULT_BITMAGNET_RESILIENCE.breakerCooldownMs),
+  },
+  // Paging through search results: stop at the result or time budget, or once enough usable candidates were found
+  bitmagnetSearchBudget: {
+    pageSize: parseIntegerEnv('BITMAGNET_PAGE_SIZE', DEFAULT_BITMAGNET_SEARCH_BUDGET.pageSize, 1),
+    maxResults: parseIntegerEnv('BITMAGNET_MAX_RESULTS', DEFAULT_BITMAGNET_SEARCH_BUDGET.maxResults, 1),
+    timeBudgetMs: parseIntegerEnv('BITMAGNET_SEARCH_TIME_BUDGET_MS', DEFAULT_BITMAGNET_SEARCH_BUDGET.timeBudgetMs),
+    targetCandidates: parseIntegerEnv('BITMAGNET_TARGET_CANDIDATES', DEFAULT_BITMAGNET_SEARCH_BUDGET.targetCandidates),
+  },
+  metadataProvider: {
+    provider: (process.env.METADATA_PROVIDER || 'cinemeta').toLowerCase() as MetadataProviderName, // cinemeta | tmdb | imdb-dataset | none
+    baseUrl: process.env.METADATA_BASE_URL || undefined, // Defaults to the provider's public API
+    apiKey: process.env.TMDB_API_KEY || undefined,
+    indexDir: process.env.IMDB_INDEX_DIR || undefined, // Built with `npm run import-imdb`
+    cacheTtlMs: process.env.METADATA_CACHE_TTL_MS ? parseInt(process.env.METADATA_CACHE_TTL_MS, 10) : undefined,
+  },
   preferredLanguage: process.env.PREFERRED_LANGUAGE || 'ENG',
+  preferredLanguages: parsePreferredLanguages(process.env.PREFERRED_LANGUAGES), // Overrides PREFERRED_LANGUAGE
   qualitySortOrder: (process.env.QUALITY_SORT_ORDER || '2160P,1080P,720P,480P,SD,SCR,CAM,UNKNOWN').split(',').map(q => q.trim().toUpperCase()),
   filterLowQuality: (process.env.FILTER_LOW_QUALITY || 'true').toLowerCase() === 'true',
+  restrictToPreferredLanguage: (process.env.RESTRICT_TO_PREFERRED_LANGUAGE || 'false').toLowerCase() === 'true',
+  preferredSubtitleLanguage: process.env.PREFERRED_SUBTITLE_LANGUAGE || undefined, // Defaults to PREFERRED_LANGUAGE
+  requireSubsWhenForeignAudio: (process.env.REQUIRE_SUBS_WHEN_FOREIGN_AUDIO || 'false').toLowerCase() === 'true',
   minSeeders: parseInt(process.env.MIN_SEEDERS || '0', 10),
+  minTitleSimilarity: parseFloat(process.env.MIN_TITLE_SIMILARITY || '0.6'),
+  scoringWeights: parseScoringWeights(process.env.SCORING_WEIGHTS),
+  showScoreBreakdown: (process.env.SHOW_SCORE_BREAKDOWN || 'false').toLowerCase() === 'true',
+  deviceProfile: parseDeviceProfile(process.env.DEVICE_PROFILE), // lg-webos | android-tv | web | desktop; unset = any device
+  deviceCompatibilityMode: (process.env.DEVICE_COMPATIBILITY_MODE || 'deprioritize').toLowerCase() === 'drop' ? 'drop' : 'deprioritize',
+  sizeBounds: parseSizeBounds(process.env.SIZE_BOUNDS),
+  sizeBoundsMode: (process.env.SIZE_BOUNDS_MODE || 'penalize').toLowerCase() === 'drop' ? 'drop' : 'penalize',
+  releaseGroups: parseReleaseGroups(process.env),
   sortPreference: (process.env.SORT_PREFERENCES || 'seeders,preferredLanguage,quality').split(',').map(s => s.trim() as SortPreference),
 };
 
-if (!addonConfig.bitmagnetPublicGraphQLEndpoint && process.env.NODE_ENV !== 'test') { // Added NODE_ENV check
-  console.error("CRITICAL: BITMAGNET_GRAPHQL_ENDPOINT environment variable is not set. Addon will not function.");
+// Server-side stream response cache (LRU + TTL, optionally persisted to disk). STREAM_CACHE_MAX_ENTRIES=0 disables it.
+const streamCacheMaxEntries = parseIntegerEnv('STREAM_CACHE_MAX_ENTRIES', DEFAULT_STREAM_CACHE_MAX_ENTRIES);
+configureStreamCache({
+  maxEntries: streamCacheMaxEntries,
+  persistPath: process.env.STREAM_CACHE_FILE || undefined,
+});
+
+// Optional season/episode -> absolute episode overrides for anime (see animeMapping.ts for the file format)
+configureAnimeMapping({ mappingFile: process.env.ANIME_MAPPING_FILE || undefined });
+
+// Optional overrides of the release name parser rules (see src/rules/parserRules.json for the format)
+configureParserRules({ rulesFile: process.env.PARSER_RULES_FILE || undefined });
+
+const bitmagnetEndpoints = resolveBitmagnetEndpoints(addonConfig, process.env.BITMAGNET_API_KEY);
+
+if (bitmagnetEndpoints.length === 0 && process.env.NODE_ENV !== 'test') { // Added NODE_ENV check
+  console.error("CRITICAL: Neither BITMAGNET_GRAPHQL_ENDPOINT nor BITMAGNET_ENDPOINTS is set. Addon will not function.");
 }
 
 // Simple logger based on LOG_LEVEL
@@ -51,6 +226,14 @@ const logger = {
 };
 
 
+// Strips secrets from a config before it is logged
+const redactConfig = (config: AddonConfig): AddonConfig => ({
+  ...config,
+  metadataProvider: config.metadataProvider && { ...config.metadataProvider, apiKey: config.metadataProvider.apiKey ? '***' : undefined },
+  bitmagnetEndpoints: config.bitmagnetEndpoints?.map(endpoint => ({ ...endpoint, apiKey: endpoint.apiKey ? '***' : undefined })),
+});
+
+
 // Middleware
 app.use(express.json()); 
 
@@ -60,9 +243,26 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// --- Per-user Configuration ---
+// Decodes the optional `:config` path segment. Responds with 400 and returns undefined if it is invalid.
+const resolveUserConfig = (req: Request, res: Response): { userConfig?: UserConfig } | undefined => {
+  const encoded = req.params.config;
+  if (!encoded) return {};
+  try {
+    return { userConfig: decodeUserConfig(encoded) };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.warn(`Rejected user config segment from ${req.ip}: ${err.message}`);
+    res.status(400).json({ error: err.message });
+    return undefined;
+  }
+};
+
 // --- Manifest Route ---
-app.get('/manifest.json', (req: Request, res: Response) => {
-  logger.info(`Manifest requested from ${req.ip}`);
+const handleManifest = (req: Request, res: Response) => {
+  const resolved = resolveUserConfig(req, res);
+  if (!resolved) return;
+  logger.info(`Manifest requested from ${req.ip}${resolved.userConfig ? ' (with user config)' : ''}`);
   const manifest = {
     id: ADDON_SERVER_ID,
     version: APP_VERSION,
@@ -74,38 +274,57 @@ app.get('/manifest.json', (req: Request, res: Response) => {
     catalogs: [], 
     behaviorHints: {
       configurable: true, // Set to true if you provide a /configure endpoint Stremio can use
-      configurationRequired: !addonConfig.bitmagnetPublicGraphQLEndpoint, 
+      configurationRequired: bitmagnetEndpoints.length === 0, 
     }
   };
   res.json(manifest);
-});
+};
+
+app.get('/manifest.json', handleManifest);
+app.get('/:config/manifest.json', handleManifest);
 
-// --- Configuration Route (Example) ---
-// This endpoint would be used by Stremio if configurable is true and user clicks "Configure"
-app.get('/configure', (req: Request, res: Response) => {
-    // This should ideally serve an HTML page where user can input configuration
-    // For a server-side addon, configuration is typically done via environment variables.
-    // This is a placeholder. You might redirect to a docs page or show current config.
-    res.setHeader('Content-Type', 'text/html');
-    res.send(`
-        <h1>${ADDON_SERVER_NAME} Configuration</h1>
-        <p>This addon is configured using environment variables on the server.</p>
-        <h2>Current Effective Configuration (sensitive values omitted):</h2>
-        <ul>
-            <li>Bitmagnet Endpoint Set: ${addonConfig.bitmagnetPublicGraphQLEndpoint ? 'Yes' : '<b>No - CRITICAL!</b>'}</li>
-            <li>Preferred Language: ${addonConfig.preferredLanguage}</li>
-            <li>Filter Low Quality: ${addonConfig.filterLowQuality}</li>
-            <li>Min Seeders: ${addonConfig.minSeeders}</li>
-            <li>Sort Preferences: ${addonConfig.sortPreference.join(', ')}</li>
-            <li>Quality Sort Order: ${addonConfig.qualitySortOrder.join(', ')}</li>
-        </ul>
-        <p>Please refer to the addon documentation for details on setting these environment variables.</p>
-    `);
+// --- Configuration Routes ---
+// Stremio opens /configure (or /<config>/configure for an installed, configured addon) when the user clicks "Configure".
+const handleConfigure = (req: Request, res: Response) => {
+  let current: UserConfig | undefined;
+  let error: string | undefined;
+  if (req.params.config) {
+    try {
+      current = decodeUserConfig(req.params.config);
+    } catch (e) {
+      error = `Could not load the existing configuration: ${e instanceof Error ? e.message : String(e)}`;
+    }
+  }
+  res.setHeader('Content-Type', 'text/html');
+  res.send(renderConfigurePage({ addonName: ADDON_SERVER_NAME, defaults: addonConfig, current, error }));
+};
+
+app.get('/configure', handleConfigure);
+app.get('/:config/configure', handleConfigure);
+
+// Validates a config submitted by the configure page and returns its URL-safe encoding.
+app.post('/configure/encode', (req: Request, res: Response) => {
+  try {
+    res.json({ config: encodeUserConfig(req.body) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
 });
 
 
 // --- Stream Route ---
-app.get('/stream/:type/:idWithOpts.json', async (req: Request, res: Response) => {
+// Mirrors the cache fields of a stream response into HTTP caching directives (as the official addon SDK does).
+const buildCacheControlHeader = (result: StremioStreamResponse): string => {
+  const directives = ['public'];
+  if (result.cacheMaxAge !== undefined) directives.push(`max-age=${result.cacheMaxAge}`);
+  if (result.staleRevalidate !== undefined) directives.push(`stale-while-revalidate=${result.staleRevalidate}`);
+  if (result.staleError !== undefined) directives.push(`stale-if-error=${result.staleError}`);
+  return directives.join(', ');
+};
+
+const handleStream = async (req: Request, res: Response) => {
+  const resolved = resolveUserConfig(req, res);
+  if (!resolved) return;
   const { type, idWithOpts } = req.params;
   logger.info(`Stream request received: type=${type}, idWithOpts=${idWithOpts} from ${req.ip}`);
 
@@ -126,7 +345,7 @@ app.get('/stream/:type/:idWithOpts.json', async (req: Request, res: Response) =>
     return res.status(400).json({ error: 'Invalid request parameters. Ensure type, IMDB ID (ttxxxx), season, and episode are correct.' });
   }
   
-  if (!addonConfig.bitmagnetPublicGraphQLEndpoint && process.env.NODE_ENV !== 'test') {
+  if (bitmagnetEndpoints.length === 0 && process.env.NODE_ENV !== 'test') {
     logger.error('Bitmagnet GraphQL endpoint is not configured. Cannot process stream request.');
     return res.status(500).json({ streams: [], error: 'Addon not configured. Missing Bitmagnet GraphQL endpoint.' });
   }
@@ -137,13 +356,28 @@ app.get('/stream/:type/:idWithOpts.json', async (req: Request, res: Response) =>
     name: `Media for ID ${imdbId}`, // Placeholder: addonService should fetch real title/year if needed
     season: season,
     episode: episode,
+    config: resolved.userConfig,
   };
+  // User settings from the install URL take precedence over the env defaults.
+  const effectiveConfig = mergeUserConfig(addonConfig, resolved.userConfig);
 
   try {
     const bitmagnetApiKey = process.env.BITMAGNET_API_KEY;
-    logger.debug(`Processing stream request for ID ${imdbId}, S${season}E${episode} with config:`, addonConfig);
-    const result = await processStreamRequest(stremioRequest, addonConfig, bitmagnetApiKey);
+    logger.debug(`Processing stream request for ID ${imdbId}, S${season}E${episode} with config:`, redactConfig(effectiveConfig));
+    // Identical requests (same normalized request + effective config) share one cached/in-flight result.
+    const result = await getCachedStreamResponse(
+      buildStreamCacheKey(stremioRequest, effectiveConfig),
+      () => processStreamRequest(stremioRequest, effectiveConfig, bitmagnetApiKey)
+    );
     
+    if (result.error) {
+        // Upstream outage: a 503 lets Stremio fall back to its stale copy (staleError) instead of caching an empty list.
+        logger.warn(`Stream request for ${imdbId} failed upstream: ${result.error}`);
+        res.setHeader('Cache-Control', 'no-store');
+        return res.status(503).json(result);
+    }
+    res.setHeader('Cache-Control', buildCacheControlHeader(result));
+
     if (result.streams.length === 0) {
         logger.info(`No streams found for ${imdbId}${season !== undefined ? ` S${String(season).padStart(2,'0')}E${String(episode).padStart(2,'0')}` : ''}`);
     } else {
@@ -155,6 +389,14 @@ app.get('/stream/:type/:idWithOpts.json', async (req: Request, res: Response) =>
     logger.error(`Error processing stream request for ${imdbId}:`, err);
     res.status(500).json({ streams: [], error: 'Failed to fetch streams.', details: err.message });
   }
+};
+
+app.get('/stream/:type/:idWithOpts.json', handleStream);
+app.get('/:config/stream/:type/:idWithOpts.json', handleStream);
+
+// Per-endpoint Bitmagnet health: request/failure counts, latency and circuit state
+app.get('/stats', (req: Request, res: Response) => {
+  res.json({ bitmagnetEndpoints: getBitmagnetEndpointStats() });
 });
 
 // Basic root route
@@ -177,15 +419,36 @@ if (process.env.NODE_ENV !== 'test') { // Do not start server during tests
     app.listen(PORT, () => {
       logger.info(`Stremio Bitmagnet 2 Addon Server listening on http://localhost:${PORT}`);
       logger.info(`Manifest URL: http://localhost:${PORT}/manifest.json`);
+      logger.info(`Configure URL: http://localhost:${PORT}/configure`);
       logger.info(`Current Configuration Loaded:`);
-      logger.info(`  BITMAGNET_GRAPHQL_ENDPOINT: ${addonConfig.bitmagnetPublicGraphQLEndpoint || 'NOT SET - CRITICAL!'}`);
+      if (addonConfig.bitmagnetEndpoints?.length) {
+        logger.info(`  BITMAGNET_ENDPOINTS: ${bitmagnetEndpoints.map(e => `${getEndpointName(e)} (priority ${e.priority ?? 0})`).join(', ')}`);
+      } else {
+        logger.info(`  BITMAGNET_GRAPHQL_ENDPOINT: ${addonConfig.bitmagnetPublicGraphQLEndpoint || 'NOT SET - CRITICAL!'}`);
+      }
+      logger.info(`  BITMAGNET_SCHEMA_PROFILE: ${addonConfig.bitmagnetSchemaProfile}`);
+      logger.info(`  BITMAGNET_PAGE_SIZE/MAX_RESULTS: ${addonConfig.bitmagnetSearchBudget?.pageSize}/${addonConfig.bitmagnetSearchBudget?.maxResults} (time budget ${addonConfig.bitmagnetSearchBudget?.timeBudgetMs}ms, target ${addonConfig.bitmagnetSearchBudget?.targetCandidates} candidates)`);
+      logger.info(`  METADATA_PROVIDER: ${addonConfig.metadataProvider?.provider}${addonConfig.metadataProvider?.baseUrl ? ` (${addonConfig.metadataProvider.baseUrl})` : ''}${addonConfig.metadataProvider?.indexDir ? ` (${addonConfig.metadataProvider.indexDir})` : ''}`);
       logger.info(`  PREFERRED_LANGUAGE: ${addonConfig.preferredLanguage}`);
+      logger.info(`  PREFERRED_LANGUAGES: ${addonConfig.preferredLanguages ? addonConfig.preferredLanguages.join(', ') : '(PREFERRED_LANGUAGE)'}`);
       logger.info(`  FILTER_LOW_QUALITY: ${addonConfig.filterLowQuality}`);
+      logger.info(`  RESTRICT_TO_PREFERRED_LANGUAGE: ${addonConfig.restrictToPreferredLanguage}`);
+      logger.info(`  PREFERRED_SUBTITLE_LANGUAGE: ${addonConfig.preferredSubtitleLanguage || `(${addonConfig.preferredLanguage})`}`);
+      logger.info(`  REQUIRE_SUBS_WHEN_FOREIGN_AUDIO: ${addonConfig.requireSubsWhenForeignAudio}`);
       logger.info(`  MIN_SEEDERS: ${addonConfig.minSeeders}`);
+      logger.info(`  MIN_TITLE_SIMILARITY: ${addonConfig.minTitleSimilarity}`);
+      logger.info(`  SCORING_WEIGHTS: ${JSON.stringify(addonConfig.scoringWeights)}`);
+      logger.info(`  SHOW_SCORE_BREAKDOWN: ${addonConfig.showScoreBreakdown}`);
+      logger.info(`  DEVICE_PROFILE: ${addonConfig.deviceProfile || 'any device'} (${addonConfig.deviceCompatibilityMode})`);
+      logger.info(`  SIZE_BOUNDS: ${JSON.stringify(addonConfig.sizeBounds)} (${addonConfig.sizeBoundsMode})`);
+      const releaseGroups = addonConfig.releaseGroups;
+      logger.info(`  RELEASE_GROUPS: ${releaseGroups ? `allow ${releaseGroups.allow?.join(', ') || '(any)'}; prefer ${releaseGroups.prefer?.join(', ') || '(none)'}; block ${releaseGroups.block?.join(', ') || '(none)'}; ${Object.keys(releaseGroups.aliases || {}).length} groups with aliases` : 'no lists'}`);
       logger.info(`  SORT_PREFERENCES: ${addonConfig.sortPreference.join(', ')}`);
       logger.info(`  QUALITY_SORT_ORDER: ${addonConfig.qualitySortOrder.join(', ')}`);
-      if (!addonConfig.bitmagnetPublicGraphQLEndpoint) {
-        logger.warn("⚠️ CRITICAL WARNING: BITMAGNET_GRAPHQL_ENDPOINT is not set. The addon will not be able to query Bitmagnet.");
+      logger.info(`  PARSER_RULES: version ${BUNDLED_PARSER_RULES.version}${process.env.PARSER_RULES_FILE ? ` (overrides from ${process.env.PARSER_RULES_FILE})` : ''}`);
+      logger.info(`  STREAM_CACHE_MAX_ENTRIES: ${streamCacheMaxEntries}${process.env.STREAM_CACHE_FILE ? ` (persisted to ${process.env.STREAM_CACHE_FILE})` : ''}`);
+      if (bitmagnetEndpoints.length === 0) {
+        logger.warn("⚠️ CRITICAL WARNING: No Bitmagnet endpoint is set. The addon will not be able to query Bitmagnet.");
       }
     });
 }
@@ -3,50 +3,306 @@ import {
   StremioStreamResponse, 
   StremioStream,
   BitmagnetTorrent,
+  BitmagnetContentRef,
+  BitmagnetTorrentFile,
+  BitmagnetEndpointConfig,
+  BitmagnetSearchFilters,
+  EpisodeTarget,
   AddonConfig,
+  MediaMetadata,
   // ParsedMetadata, // Not directly used here, but through its consumers
   VideoQualityRank,
   StremioItemType,
   SortPreference
 } from '../types';
-import { standardizeTitle, standardizeYear } from '../utils/standardization';
-import { parseTorrentTitle } from './metadataParser';
-import { formatStreamForResult, getQualityRank } from './stremioFormatter';
+import { generateSearchVariants, standardizeTitle, standardizeYear } from '../utils/standardization';
+import { TitleMatchTarget, titleMatchConfidence } from '../utils/titleSimilarity';
+import { preferredLanguageCodes, subtitleLanguageCodes } from '../utils/languages';
+import { coversEpisode, isSingleEpisode, parseEpisodeFromPath, parseTorrentTitle } from './metadataParser';
+import { formatScoreBreakdown, formatStreamForResult, getQualityRank } from './stremioFormatter';
 import { fetchTrackers, getCachedTrackers } from './trackerService';
-import { queryBitmagnet } from './bitmagnetService';
-import { LOW_QUALITY_TERMS, LOW_QUALITY_RESOLUTIONS } from '../constants';
+import {
+  DEFAULT_BITMAGNET_SEARCH_BUDGET,
+  buildSearchFilters,
+  isBitmagnetUnavailableError,
+  paginateBitmagnetSearch,
+  queryBitmagnetPage,
+} from './bitmagnetService';
+import { fetchTorrentFilesFromEndpoints, getEndpointName, resolveBitmagnetEndpoints, searchAllBitmagnetEndpoints } from './bitmagnetFederation';
+import { resolveMediaMetadata } from './metadataService';
+import { resolveAbsoluteEpisode } from './animeMapping';
+import { matchesContentRef } from './bitmagnetSchemas';
+import { hasPreferredSubtitles, preferredLanguageMatch, scoreStreams } from './streamScoring';
+import { applyDeviceProfile, isCompatibleWithDevice } from './deviceCompatibility';
+import { applySizeBounds } from './sizeBounds';
+import { applyReleaseGroupRules, isAllowedReleaseGroup } from './releaseGroups';
+import {
+  LOW_QUALITY_TERMS,
+  LOW_QUALITY_RESOLUTIONS,
+  STREAM_CACHE_MAX_AGE,
+  STREAM_STALE_REVALIDATE,
+  STREAM_STALE_ERROR,
+  MAX_PACK_FILE_LOOKUPS,
+  VIDEO_FILE_EXTENSIONS,
+  TITLE_YEAR_TOLERANCE,
+  MAX_TITLE_SEARCH_VARIANTS,
+} from '../constants';
 
 // Initialize trackers on load (simulating server start)
 // The trackerService itself has logic to prevent re-fetching too often.
 fetchTrackers().catch(err => console.error("[addonService] Failed to fetch initial trackers on load:", err));
 
+// Shared by all queries of one stream request: a common deadline, and a check whether enough usable
+// candidates were collected to stop paging.
+interface SearchPaging {
+  deadline: number; // Epoch ms
+  isEnough?: (collected: BitmagnetTorrent[]) => boolean;
+}
+
 async function fetchAndProcessBitmagnetResults(
   searchQuery: string,
   year: number | undefined,
   type: StremioItemType, // Pass type to influence Bitmagnet query if schema supports it
   config: AddonConfig,
-  apiKey?: string 
+  apiKey?: string,
+  contentRef?: BitmagnetContentRef, // Only keep torrents linked to this content
+  paging?: SearchPaging
 ): Promise<BitmagnetTorrent[]> {
   try {
     const contentType = type === 'movie' ? 'MOVIE' : type === 'series' ? 'SERIES' : undefined;
-    console.log(`[addonService] Querying Bitmagnet: query="${searchQuery}", year=${year}, type=${contentType}`);
-    const results = await queryBitmagnet(
-      searchQuery,
-      year, 
-      50, // limit
-      config.bitmagnetPublicGraphQLEndpoint,
-      contentType, // Pass content type to Bitmagnet query
-      apiKey
-    );
-    console.log(`[addonService] Bitmagnet returned ${results.length} results for query="${searchQuery}", year=${year}, type=${contentType}`);
+    console.log(`[addonService] Querying Bitmagnet: query="${searchQuery}", year=${year}, type=${contentType}${contentRef ? `, contentRef=${contentRef.source}:${contentRef.id}` : ''}`);
+    const endpoints = resolveBitmagnetEndpoints(config, apiKey);
+    const budget = config.bitmagnetSearchBudget || DEFAULT_BITMAGNET_SEARCH_BUDGET;
+    const deadline = paging?.deadline ?? Date.now() + budget.timeBudgetMs;
+    const search = (filters?: BitmagnetSearchFilters) => searchAllBitmagnetEndpoints(endpoints, endpoint => paginateBitmagnetSearch(
+      (page, limit) => queryBitmagnetPage(
+        searchQuery,
+        year, 
+        limit,
+        endpoint.url,
+        contentType, // Pass content type to Bitmagnet query
+        endpoint.apiKey,
+        {
+          schemaProfile: endpoint.schemaProfile,
+          contentRef,
+          resilience: config.bitmagnetResilience,
+          timeoutMs: endpoint.timeoutMs,
+          page,
+          filters,
+        }
+      ),
+      budget,
+      deadline,
+      paging?.isEnough
+    ));
+    const filters = buildSearchFilters(config);
+    let results = await search(filters);
+    if (results.length === 0 && filters) {
+      // Low quality releases are only hidden when better ones exist, so "nothing but low quality" needs a second look
+      console.log(`[addonService] No results with server-side filters for query="${searchQuery}". Retrying without them.`);
+      results = await search(undefined);
+    }
+    console.log(`[addonService] Bitmagnet (${endpoints.map(getEndpointName).join(', ')}) returned ${results.length} results for query="${searchQuery}", year=${year}, type=${contentType}`);
     return results;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.warn(`[addonService] Failed to fetch from Bitmagnet for query "${searchQuery}" (Year: ${year}, Type: ${type}): ${errorMessage}`, error);
+    // An outage must not look like "no results": let the caller turn it into an error response.
+    if (isBitmagnetUnavailableError(error)) throw error;
     return []; 
   }
 }
 
+// What toCandidateStream needs to know about the request, worked out once per stream request.
+interface CandidateContext {
+  request: StremioRequestType;
+  searchTitle: string;
+  searchYear: number | undefined;
+  target?: EpisodeTarget; // Series: the requested episode; unset for movies
+  titleMatch?: TitleMatchTarget; // Unset when the real title is unknown (searching by IMDB ID)
+  minTitleSimilarity: number;
+}
+
+// Parses a Bitmagnet result into a stream candidate; null when it can't be the requested episode,
+// or its title doesn't look like the requested movie/series.
+const toCandidateStream = (torrent: BitmagnetTorrent, context: CandidateContext): StremioStream | null => {
+  const { request, searchTitle, searchYear, target } = context;
+  const { type } = request;
+  const torrentYearFromBitmagnetRelease = torrent.releaseDate ? standardizeYear(torrent.releaseDate) : undefined;
+  // Context year for parsing: Bitmagnet release year > standardized year from request > undefined
+  const contextYearForParsing = torrentYearFromBitmagnetRelease || searchYear;
+  const parsedMeta = parseTorrentTitle(torrent.title, searchTitle, contextYearForParsing);
+  
+  // Single episodes, episode ranges (S01E01-E03), season ranges (S01-S05), anime absolute numbers (- 137)
+  // and air dates (2024.03.14) must cover the requested episode.
+  // Releases without S/E information pass; mapSeasonPackFiles checks their file list further down.
+  if (type === 'series' && target && !coversEpisode(parsedMeta, target)) {
+    return null;
+  }
+
+  // Torrents Bitmagnet linked to the requested IMDB ID are the right title, whatever they're called.
+  // Everything else must look like the requested title (or one of its aliases) to weed out namesakes.
+  let titleConfidence: number | undefined;
+  if (matchesContentRef(torrent, { source: 'imdb', id: request.id })) {
+    titleConfidence = 1;
+  } else if (context.titleMatch) {
+    titleConfidence = titleMatchConfidence(parsedMeta.matchTitle ?? torrent.title, parsedMeta.year, context.titleMatch);
+    if (titleConfidence < context.minTitleSimilarity) return null;
+  }
+  
+  // Enrich with direct data from Bitmagnet if available (e.g., precise resolution)
+  // This assumes queryBitmagnet populates these if the schema provides them.
+  parsedMeta.resolution = torrent.videoResolution || parsedMeta.resolution;
+  parsedMeta.videoCodec = torrent.videoCodec || parsedMeta.videoCodec;
+  // parsedMeta.audioCodec = torrent.audioCodec || parsedMeta.audioCodec; // Handled by parser
+  parsedMeta.qualitySource = torrent.source || parsedMeta.qualitySource;
+
+  return {
+    infoHash: torrent.infoHash,
+    parsedMeta: {
+      ...parsedMeta,
+      seeders: torrent.seeders || parsedMeta.seeders || 0,
+      calculatedSize: torrent.size || parsedMeta.calculatedSize,
+    },
+    seeders: torrent.seeders || parsedMeta.seeders || 0,
+    size: torrent.size || parsedMeta.calculatedSize,
+    titleConfidence,
+  };
+};
+
+// restrictToPreferredLanguage: the release is tagged with one of the preferred languages or as multi-language.
+// Untagged releases only count for English, as scene releases usually omit the tag for English audio.
+const isInPreferredLanguage = (stream: StremioStream, config: AddonConfig): boolean =>
+  preferredLanguageMatch(stream, config) > 0;
+
+// requireSubsWhenForeignAudio: audio in the preferred language (as above), else subtitles in the preferred subtitle language.
+const isWatchableLanguage = (stream: StremioStream, config: AddonConfig): boolean =>
+  isInPreferredLanguage(stream, config) || hasPreferredSubtitles(stream, config);
+
+// Whether a candidate would survive the per-stream filters of processStreamRequest (minSeeders, language, release group,
+// device, low quality).
+// Used to stop paging through Bitmagnet results once there are enough of them.
+const isViableCandidate = (stream: StremioStream, config: AddonConfig): boolean => {
+  if ((stream.seeders || 0) < config.minSeeders) return false;
+  if (config.restrictToPreferredLanguage && !isInPreferredLanguage(stream, config)) return false;
+  if (config.requireSubsWhenForeignAudio && !isWatchableLanguage(stream, config)) return false;
+  if (!isAllowedReleaseGroup(stream, config)) return false;
+  if (config.deviceCompatibilityMode === 'drop' && !isCompatibleWithDevice(stream, config)) return false;
+  return !config.filterLowQuality || getQualityRank(stream.parsedMeta) >= VideoQualityRank.HDTV_720P;
+};
+
+// The video file of the requested episode inside a pack, or undefined if the pack doesn't contain it.
+// `packSeason` (from the torrent title, e.g. "Show S02 1080p") fills in for files named only by episode.
+const findEpisodeFile = (
+  files: BitmagnetTorrentFile[],
+  target: EpisodeTarget,
+  packSeason?: number
+): BitmagnetTorrentFile | undefined => {
+  const { season, episode, absoluteEpisode } = target;
+  const matches = files.filter(file => {
+    const extension = file.path.split('.').pop()?.toLowerCase() || '';
+    if (!VIDEO_FILE_EXTENSIONS.includes(extension)) return false;
+    const parsed = parseEpisodeFromPath(file.path);
+    if (!parsed) return false;
+    const fileSeason = parsed.season ?? packSeason;
+    if (fileSeason !== undefined) return fileSeason === season && parsed.episode === episode;
+    // No season anywhere: an absolute number (anime batches), or plain episode numbers of season 1
+    return parsed.episode === (absoluteEpisode ?? (season === 1 ? episode : undefined));
+  });
+  // Prefer the largest match so samples/extras named like the episode lose against the real file
+  return matches.sort((a, b) => (b.size || 0) - (a.size || 0))[0];
+};
+
+// Points season/series packs at the file of the requested episode (fileIdx + filename/videoSize hints) and drops
+// packs whose file list shows the episode isn't in them. Packs without a known file list are kept unchanged.
+const mapSeasonPackFiles = async (
+  streams: StremioStream[],
+  torrentsByHash: Map<string, BitmagnetTorrent>,
+  target: EpisodeTarget,
+  endpoints: BitmagnetEndpointConfig[],
+  config: AddonConfig
+): Promise<StremioStream[]> => {
+  const isPack = (stream: StremioStream) => !isSingleEpisode(stream.parsedMeta);
+
+  // Only the best-seeded packs are worth the extra round trip
+  const packsToMap = new Set(streams.filter(isPack)
+    .sort((a, b) => (b.seeders || 0) - (a.seeders || 0))
+    .slice(0, MAX_PACK_FILE_LOOKUPS)
+    .map(stream => stream.infoHash as string));
+  if (packsToMap.size === 0) return streams;
+
+  const mapped = await Promise.all(streams.map(async stream => {
+    if (!packsToMap.has(stream.infoHash as string)) return stream;
+    const torrent = torrentsByHash.get(stream.infoHash as string);
+    const files = torrent?.files?.items?.length
+      ? torrent.files.items.map((file, position) => ({ ...file, fileIndex: file.fileIndex ?? position }))
+      : await fetchTorrentFilesFromEndpoints(endpoints, stream.infoHash as string, config.bitmagnetResilience);
+    if (!files) return stream;
+
+    const seasonRange = stream.parsedMeta?.seasonRange;
+    const packSeason = seasonRange && seasonRange.start === seasonRange.end ? seasonRange.start : undefined;
+    const file = findEpisodeFile(files, target, packSeason);
+    if (!file) {
+      console.log(`[addonService] Pack ${stream.infoHash} (${torrent?.title}) has no file for S${target.season}E${target.episode}. Dropping it.`);
+      return null;
+    }
+    return {
+      ...stream,
+      fileIdx: file.fileIndex,
+      behaviorHints: {
+        ...stream.behaviorHints,
+        filename: file.path.split(/[\\/]/).pop(),
+        videoSize: file.size,
+        bingeGroup: `bitmagnet2-${stream.infoHash}`, // Next episode from the same pack
+      },
+    };
+  }));
+  return mapped.filter((stream): stream is StremioStream => stream !== null);
+};
+
+// Compares two streams by config.sortPreference, criteria in order; used to break ties between equal scores.
+const compareBySortPreference = (a: StremioStream, b: StremioStream, config: AddonConfig): number => {
+  for (const preference of config.sortPreference) {
+      let comparison = 0;
+      switch (preference) {
+          case SortPreference.Seeders:
+              comparison = (b.seeders || 0) - (a.seeders || 0);
+              break;
+          case SortPreference.PreferredLanguage:
+              comparison = preferredLanguageMatch(b, config) - preferredLanguageMatch(a, config);
+              break;
+          case SortPreference.Quality:
+              const qualityRankA = getQualityRank(a.parsedMeta);
+              const qualityRankB = getQualityRank(b.parsedMeta);
+              comparison = qualityRankB - qualityRankA; // Higher rank is better
+              if (comparison === 0) comparison = Number(!!b.parsedMeta?.isRemux) - Number(!!a.parsedMeta?.isRemux);
+              if (comparison === 0) comparison = (b.parsedMeta?.bitDepth || 8) - (a.parsedMeta?.bitDepth || 8);
+              if (comparison === 0 && a.parsedMeta && b.parsedMeta) { 
+                  // If ranks are equal, use qualitySortOrder (array of strings, lower index is better)
+                  const resAUpper = a.parsedMeta.resolution?.toUpperCase() || 'UNKNOWN';
+                  const resBUpper = b.parsedMeta.resolution?.toUpperCase() || 'UNKNOWN';
+                  
+                  const resAIndex = config.qualitySortOrder.indexOf(resAUpper);
+                  const resBIndex = config.qualitySortOrder.indexOf(resBUpper);
+                  
+                  if (resAIndex !== -1 && resBIndex !== -1) {
+                       comparison = resAIndex - resBIndex; // Lower index in qualitySortOrder is better
+                  } else if (resAIndex !== -1) comparison = -1; // A is in order, B is not (so A is better)
+                  else if (resBIndex !== -1) comparison = 1;  // B is in order, A is not (so B is better)
+              }
+              break;
+          case SortPreference.Size: // Larger files often imply better quality for the same resolution/source
+              comparison = (b.size || 0) - (a.size || 0);
+              break;
+          case SortPreference.TitleMatch: // Unknown confidence (searched by IMDB ID) sorts last
+              comparison = (b.titleConfidence ?? 0) - (a.titleConfidence ?? 0);
+              break;
+      }
+      if (comparison !== 0) return comparison;
+  }
+  return 0; // If all sorting criteria are equal
+};
+
 export const processStreamRequest = async (
   request: StremioRequestType,
   config: AddonConfig,
@@ -58,18 +314,23 @@ export const processStreamRequest = async (
   let yearForSearch = originalYearFromRequest;
 
   // If name is generic (like placeholder from server.ts) or missing, it's unreliable.
-  // A production addon should use 'id' (IMDB ID) to fetch actual title/year from TMDB/OMDB.
+  // Resolve the real title/year from the IMDB ID through the configured metadata provider.
+  let metadata: MediaMetadata | undefined;
+  const hasUsableTitle = !!searchTitle && !searchTitle.startsWith("Media for ID");
+  if (id.startsWith('tt')) {
+    metadata = await resolveMediaMetadata(id, type, config.metadataProvider);
+    if (metadata && !hasUsableTitle) {
+      searchTitle = metadata.title;
+      yearForSearch = yearForSearch || metadata.year;
+    }
+  }
   if (!searchTitle || searchTitle.startsWith("Media for ID")) { 
-      console.warn(`[addonService] Request for ID ${id} has a generic or missing title ('${name}'). Fetching metadata for this ID is recommended for better search results. For now, using ID as search query.`);
-      // In a real scenario:
-      // const metadata = await fetchMetadataFromTMDB(id, type); // You'd build this function
-      // searchTitle = metadata.title;
-      // yearForSearch = metadata.year;
+      console.warn(`[addonService] Request for ID ${id} has a generic or missing title ('${name}') and no metadata could be resolved. Using ID as search query.`);
       searchTitle = id; // Fallback: search Bitmagnet by IMDB ID (its effectiveness depends on Bitmagnet indexing)
   }
   
   const standardizedTitle = searchTitle ? standardizeTitle(searchTitle) : '';
-  // Use year from request if available, otherwise year derived from metadata fetching (if implemented)
+  // Use year from request if available, otherwise year from resolved metadata
   const standardizedYear = yearForSearch ? standardizeYear(yearForSearch.toString()) : undefined;
 
   if (!standardizedTitle) {
@@ -79,85 +340,143 @@ export const processStreamRequest = async (
   
   console.log(`[addonService] Processing request: Title='${standardizedTitle}', Year='${standardizedYear}', Type='${type}', ID='${id}', Season='${season}', Episode='${episode}'`);
 
-  const queryPromises: Promise<BitmagnetTorrent[]>[] = [];
-
-  // Query 1: Title + Year (if year is available)
-  if (standardizedTitle && standardizedYear) {
-    queryPromises.push(fetchAndProcessBitmagnetResults(standardizedTitle, standardizedYear, type, config, apiKey));
+  // Releases may number the requested episode differently: anime counts absolutely ("Show - 137"), daily shows
+  // use the air date ("Show.2024.03.14"). Translate the requested S/E once up front.
+  let target: EpisodeTarget | undefined;
+  if (type === 'series' && season && episode) {
+    target = {
+      season,
+      episode,
+      absoluteEpisode: resolveAbsoluteEpisode(id, season, episode, metadata),
+      airDate: metadata?.episodes?.find(e => e.season === season && e.episode === episode)?.airDate,
+    };
+    console.log(`[addonService] Requested episode of ${id}: S${season}E${episode}, absolute ${target.absoluteEpisode ?? 'unknown'}, aired ${target.airDate ?? 'unknown'}.`);
   }
 
-  // Query 2: Title only (crucial for multi-year series or when year is uncertain)
-  // Also good if standardizedYear was for series start, but an episode is from a later year.
-  if (standardizedTitle) {
-    queryPromises.push(fetchAndProcessBitmagnetResults(standardizedTitle, undefined, type, config, apiKey));
-  }
-  
-  // Query 3 (Optional but recommended if title is just ID): Search by IMDB ID directly
-  if (standardizedTitle === id) { // If we fell back to searching by ID
-     queryPromises.push(fetchAndProcessBitmagnetResults(id, undefined, type, config, apiKey));
+  // Releases may use the original or a localized title, so any known title counts. Not possible when
+  // searching by IMDB ID: only Bitmagnet's content link tells whether a result is the right one then.
+  const candidateContext: CandidateContext = {
+    request,
+    searchTitle: standardizedTitle,
+    searchYear: standardizedYear,
+    target,
+    minTitleSimilarity: config.minTitleSimilarity,
+  };
+  const searchVariants = searchTitle !== id ? generateSearchVariants(standardizedTitle, MAX_TITLE_SEARCH_VARIANTS) : [];
+  if (searchTitle !== id) {
+    const knownTitles = [standardizedTitle, ...searchVariants, metadata?.title, metadata?.originalTitle, ...(metadata?.aliases || [])]
+      .filter((title): title is string => !!title);
+    candidateContext.titleMatch = {
+      titles: Array.from(new Set(knownTitles)),
+      year: standardizedYear,
+      checkYear: type === 'movie', // Series releases carry the year of the season, not of the first air date
+      yearTolerance: TITLE_YEAR_TOLERANCE,
+    };
   }
 
+  let rawResults: BitmagnetTorrent[] = [];
 
-  const allResultsNested = await Promise.all(queryPromises);
-  const rawResults = allResultsNested.flat();
-
-  const uniqueResults = Array.from(new Map(rawResults.map(item => [item.infoHash, item])).values());
-  console.log(`[addonService] Found ${uniqueResults.length} unique torrents from Bitmagnet for '${standardizedTitle}'.`);
+  // Page through results until enough candidates would survive filtering, within the result/time budget.
+  // Each torrent is parsed once: the collected list only grows by a page at a time, so re-parsing all of it on every
+  // page would be quadratic. Keyed by object rather than infoHash, as endpoints may report the same torrent differently.
+  const budget = config.bitmagnetSearchBudget || DEFAULT_BITMAGNET_SEARCH_BUDGET;
+  const viability = new WeakMap<BitmagnetTorrent, boolean>();
+  const isViableTorrent = (torrent: BitmagnetTorrent): boolean => {
+    let viable = viability.get(torrent);
+    if (viable === undefined) {
+      const stream = toCandidateStream(torrent, candidateContext);
+      viable = stream !== null && isViableCandidate(stream, config);
+      viability.set(torrent, viable);
+    }
+    return viable;
+  };
+  const paging: SearchPaging = {
+    deadline: Date.now() + budget.timeBudgetMs,
+    isEnough: collected => collected.filter(isViableTorrent).length >= budget.targetCandidates,
+  };
 
-  let parsedStreams: StremioStream[] = uniqueResults.map(torrent => {
-    const torrentYearFromBitmagnetRelease = torrent.releaseDate ? standardizeYear(torrent.releaseDate) : undefined;
-    // Context year for parsing: Bitmagnet release year > standardized year from request > undefined
-    const contextYearForParsing = torrentYearFromBitmagnetRelease || standardizedYear;
-    const parsedMeta = parseTorrentTitle(torrent.title, standardizedTitle, contextYearForParsing);
-    
-    if (type === 'series' && season && episode) {
-        if (parsedMeta.episodeInfo) { // Torrent title has S/E info
-            // Regex to match S<season_num>E<episode_num> or S<season_num> (for season packs)
-            // Example: S01E01, S1E1, S01, etc.
-            const sePattern = new RegExp(`[Ss](${String(season).padStart(2, '0')}|${season})[Ee](${String(episode).padStart(2, '0')}|${episode})`, 'i');
-            const seasonPackPattern = new RegExp(`[Ss](${String(season).padStart(2, '0')}|${season})(?!\\d|([Ee]))`, 'i'); // Matches S01 but not S01E02 or S011
-
-            if (!sePattern.test(parsedMeta.episodeInfo) && !seasonPackPattern.test(parsedMeta.episodeInfo)) {
-                 // If specific S/E is requested, and torrent's S/E info doesn't match AND it's not a season pack for the requested season
-                 return null;
-            }
-            // If it's a season pack matching requested season, or specific S/E match, it's a candidate.
-        } else {
-            // No S/E info in torrent title. This could be a "complete series" pack or a poorly named file.
-            // If Bitmagnet's `files` array is populated and reliable, one could iterate through files here
-            // to find a match for season/episode. This is complex.
-            // For now, if specific S/E is requested and torrent title has no S/E, it's less likely a match.
-            // However, some "Complete S01" packs might not have E information in the primary title.
-            // Let it pass for now if it's a series request; stremioFormatter might try to set mapIdx if it looks like a pack.
-        }
+  try {
+    // Preferred: torrents Bitmagnet has already classified as this exact movie/series (linked via content source/id).
+    // Bitmagnet can't filter by content, so this searches the title and keeps the linked results. Without a title,
+    // the ID itself is the query, which only finds torrents whose indexed text happens to contain it.
+    if (id.startsWith('tt')) {
+      const linkedQuery = searchTitle !== id ? standardizedTitle : id;
+      rawResults = await fetchAndProcessBitmagnetResults(linkedQuery, undefined, type, config, apiKey, { source: 'imdb', id }, paging);
+      if (rawResults.length === 0) {
+        console.log(`[addonService] No torrents linked to content imdb:${id} in Bitmagnet. Falling back to text search.`);
+      }
     }
-    
-    // Enrich with direct data from Bitmagnet if available (e.g., precise resolution)
-    // This assumes queryBitmagnet populates these if the schema provides them.
-    parsedMeta.resolution = torrent.videoResolution || parsedMeta.resolution;
-    parsedMeta.videoCodec = torrent.videoCodec || parsedMeta.videoCodec;
-    // parsedMeta.audioCodec = torrent.audioCodec || parsedMeta.audioCodec; // Handled by parser
-    parsedMeta.qualitySource = torrent.source || parsedMeta.qualitySource;
 
+    // Fallback: free-text search by title
+    if (rawResults.length === 0) {
+      const queryPromises: Promise<BitmagnetTorrent[]>[] = [];
+
+      // Query 1: Title + Year (if year is available)
+      if (standardizedTitle && standardizedYear) {
+        queryPromises.push(fetchAndProcessBitmagnetResults(standardizedTitle, standardizedYear, type, config, apiKey, undefined, paging));
+      }
+
+      // Query 2: Title only (crucial for multi-year series or when year is uncertain)
+      // Also good if standardizedYear was for series start, but an episode is from a later year.
+      if (standardizedTitle) {
+        queryPromises.push(fetchAndProcessBitmagnetResults(standardizedTitle, undefined, type, config, apiKey, undefined, paging));
+      }
+
+      // Query 3+: alternative spellings releases commonly use ("Rocky 2" for "Rocky II", "Office" for "The Office")
+      for (const variant of searchVariants) {
+        queryPromises.push(fetchAndProcessBitmagnetResults(variant, standardizedYear, type, config, apiKey, undefined, paging));
+      }
+
+      // Partial results are better than none; only fail when every query failed.
+      const settled = await Promise.allSettled(queryPromises);
+      const failures = settled.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failures.length > 0 && failures.length === settled.length) throw failures[0].reason;
+      rawResults = settled.flatMap(r => r.status === 'fulfilled' ? r.value : []);
+    }
+  } catch (error) {
+    if (!isBitmagnetUnavailableError(error)) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[addonService] Bitmagnet unavailable for '${standardizedTitle}': ${errorMessage}`);
+    // Marked as an error (not an empty success) so clients and the stream cache keep serving stale results.
     return {
-      infoHash: torrent.infoHash,
-      parsedMeta: {
-        ...parsedMeta,
-        seeders: torrent.seeders || parsedMeta.seeders || 0,
-        calculatedSize: torrent.size || parsedMeta.calculatedSize,
-      },
-      seeders: torrent.seeders || parsedMeta.seeders || 0,
-      size: torrent.size || parsedMeta.calculatedSize,
+      streams: [],
+      error: `Bitmagnet is currently unavailable: ${errorMessage}`,
+      staleError: STREAM_STALE_ERROR,
     };
-  }).filter(stream => stream !== null) as StremioStream[];
+  }
+
+  const uniqueResults = Array.from(new Map(rawResults.map(item => [item.infoHash, item])).values());
+  console.log(`[addonService] Found ${uniqueResults.length} unique torrents from Bitmagnet for '${standardizedTitle}'.`);
+
+  let parsedStreams: StremioStream[] = uniqueResults
+    .map(torrent => toCandidateStream(torrent, candidateContext))
+    .filter((stream): stream is StremioStream => stream !== null);
 
-  console.log(`[addonService] Parsed ${parsedStreams.length} streams after S/E matching for '${standardizedTitle}'.`);
+  console.log(`[addonService] Parsed ${parsedStreams.length} streams after S/E and title matching for '${standardizedTitle}'.`);
   
   if (config.minSeeders > 0) {
     parsedStreams = parsedStreams.filter(stream => (stream.seeders || 0) >= config.minSeeders);
     console.log(`[addonService] ${parsedStreams.length} streams after minSeeders (${config.minSeeders}) filter for '${standardizedTitle}'.`);
   }
   
+  // Fallback for schemas without a language facet (and for releases Bitmagnet couldn't classify)
+  if (config.restrictToPreferredLanguage) {
+    parsedStreams = parsedStreams.filter(stream => isInPreferredLanguage(stream, config));
+    console.log(`[addonService] ${parsedStreams.length} streams after preferred language (${preferredLanguageCodes(config).join(', ')}) restriction for '${standardizedTitle}'.`);
+  }
+
+  if (config.requireSubsWhenForeignAudio) {
+    parsedStreams = parsedStreams.filter(stream => isWatchableLanguage(stream, config));
+    console.log(`[addonService] ${parsedStreams.length} streams after requiring ${subtitleLanguageCodes(config).join('/')} subtitles for foreign audio for '${standardizedTitle}'.`);
+  }
+
+  // Sets the canonical group names shown in the titles and ranked by scoreStreams, whether or not anything is dropped
+  parsedStreams = applyReleaseGroupRules(parsedStreams, config);
+  if (config.releaseGroups) {
+    const preferred = parsedStreams.filter(stream => stream.preferredReleaseGroup).length;
+    console.log(`[addonService] ${parsedStreams.length} streams after release group lists (${config.releaseGroups.block?.length || 0} blocked, ${config.releaseGroups.allow?.length || 0} allowed groups), ${preferred} of them by preferred groups, for '${standardizedTitle}'.`);
+  }
+
   if (config.filterLowQuality && parsedStreams.length > 0) {
     const hasHighQuality = parsedStreams.some(stream => getQualityRank(stream.parsedMeta) >= VideoQualityRank.HDTV_720P);
     if (hasHighQuality) {
@@ -177,69 +496,50 @@ export const processStreamRequest = async (
     }
   }
 
-  // Sort streams based on user-defined preferences in config
-  parsedStreams.sort((a, b) => {
-    for (const preference of config.sortPreference) {
-        let comparison = 0;
-        switch (preference) {
-            case SortPreference.Seeders:
-                comparison = (b.seeders || 0) - (a.seeders || 0);
-                break;
-            case SortPreference.PreferredLanguage:
-                const langA = a.parsedMeta?.languages?.join(' ').toUpperCase() || '';
-                const langB = b.parsedMeta?.languages?.join(' ').toUpperCase() || '';
-                const prefLangUpper = config.preferredLanguage.toUpperCase();
-                // Exact match for preferred language is best
-                const aHasExactPrefLang = a.parsedMeta?.languages?.map(l=>l.toUpperCase()).includes(prefLangUpper) ?? false;
-                const bHasExactPrefLang = b.parsedMeta?.languages?.map(l=>l.toUpperCase()).includes(prefLangUpper) ?? false;
-
-                if (aHasExactPrefLang && !bHasExactPrefLang) comparison = -1;
-                else if (!aHasExactPrefLang && bHasExactPrefLang) comparison = 1;
-                else { // If both or neither have exact, check for partial / "MULTI"
-                    const aHasPrefLang = langA.includes(prefLangUpper);
-                    const bHasPrefLang = langB.includes(prefLangUpper);
-                    if (aHasPrefLang && !bHasPrefLang) comparison = -1;
-                    else if (!aHasPrefLang && bHasPrefLang) comparison = 1;
-                }
-                break;
-            case SortPreference.Quality:
-                const qualityRankA = getQualityRank(a.parsedMeta);
-                const qualityRankB = getQualityRank(b.parsedMeta);
-                comparison = qualityRankB - qualityRankA; // Higher rank is better
-                if (comparison === 0 && a.parsedMeta && b.parsedMeta) { 
-                    // If ranks are equal, use qualitySortOrder (array of strings, lower index is better)
-                    const resAUpper = a.parsedMeta.resolution?.toUpperCase() || 'UNKNOWN';
-                    const resBUpper = b.parsedMeta.resolution?.toUpperCase() || 'UNKNOWN';
-                    
-                    const resAIndex = config.qualitySortOrder.indexOf(resAUpper);
-                    const resBIndex = config.qualitySortOrder.indexOf(resBUpper);
-                    
-                    if (resAIndex !== -1 && resBIndex !== -1) {
-                         comparison = resAIndex - resBIndex; // Lower index in qualitySortOrder is better
-                    } else if (resAIndex !== -1) comparison = -1; // A is in order, B is not (so A is better)
-                    else if (resBIndex !== -1) comparison = 1;  // B is in order, A is not (so B is better)
-                }
-                break;
-            case SortPreference.Size: // Larger files often imply better quality for the same resolution/source
-                comparison = (b.size || 0) - (a.size || 0);
-                break;
-        }
-        if (comparison !== 0) return comparison;
-    }
-    return 0; // If all sorting criteria are equal
-  });
+  // Before pack mapping, so no file lists are fetched for packs the device can't play anyway
+  parsedStreams = applyDeviceProfile(parsedStreams, config);
+  if (config.deviceProfile) {
+    const incompatible = parsedStreams.filter(stream => stream.incompatibilities?.length).length;
+    console.log(`[addonService] ${parsedStreams.length} streams after device profile (${config.deviceProfile}, ${config.deviceCompatibilityMode || 'deprioritize'}) check, ${incompatible} of them not playable, for '${standardizedTitle}'.`);
+  }
+
+  if (target && parsedStreams.length > 0) {
+    const torrentsByHash = new Map(uniqueResults.map(torrent => [torrent.infoHash, torrent]));
+    parsedStreams = await mapSeasonPackFiles(parsedStreams, torrentsByHash, target, resolveBitmagnetEndpoints(config, apiKey), config);
+    console.log(`[addonService] ${parsedStreams.length} streams after season pack file mapping for '${standardizedTitle}'.`);
+  }
+
+  // After pack mapping, which tells the size of the episode's file inside a pack
+  const beforeSizeBounds = parsedStreams.length;
+  parsedStreams = applySizeBounds(parsedStreams, config, type, metadata?.runtimeMinutes);
+  const outliers = config.sizeBoundsMode === 'drop'
+    ? beforeSizeBounds - parsedStreams.length
+    : parsedStreams.filter(stream => stream.sizeOutlier).length;
+  console.log(`[addonService] ${parsedStreams.length} streams after size bounds check (runtime ${metadata?.runtimeMinutes ?? 'unknown'} min, ${outliers} outliers ${config.sizeBoundsMode === 'drop' ? 'dropped' : 'penalized'}) for '${standardizedTitle}'.`);
+
+  // Rank by weighted score (see streamScoring.ts); the user's sort preferences break ties.
+  // Streams the device can't play (deprioritize mode) come after all playable ones.
+  parsedStreams = scoreStreams(parsedStreams, config);
+  const unplayable = (stream: StremioStream) => stream.incompatibilities?.length ? 1 : 0;
+  parsedStreams.sort((a, b) =>
+    (unplayable(a) - unplayable(b)) ||
+    ((b.score?.total ?? 0) - (a.score?.total ?? 0)) ||
+    compareBySortPreference(a, b, config));
+  for (const stream of parsedStreams.slice(0, 5)) {
+    console.log(`[addonService] Score ${stream.score ? formatScoreBreakdown(stream.score) : 'n/a (unscored)'}: ${stream.parsedMeta?.originalTitle}`);
+  }
 
   const finalTrackers = getCachedTrackers();
   const formattedStreams = parsedStreams.map(stream =>
-    formatStreamForResult(stream, finalTrackers, type, season, episode)
+    formatStreamForResult(stream, finalTrackers, type, season, episode, config.showScoreBreakdown)
   );
   
   console.log(`[addonService] Returning ${formattedStreams.length} formatted streams for '${standardizedTitle}'.`);
 
   return {
     streams: formattedStreams,
-    cacheMaxAge: 3600, // Stremio cache instruction: 1 hour
-    staleRevalidate: 1800, // Stremio instruction: revalidate after 30 mins if cache expires
-    staleError: 86400, // Serve stale for 1 day on error if fetch fails
+    cacheMaxAge: STREAM_CACHE_MAX_AGE, // Stremio cache instruction: 1 hour
+    staleRevalidate: STREAM_STALE_REVALIDATE, // Stremio instruction: revalidate after 30 mins if cache expires
+    staleError: STREAM_STALE_ERROR, // Serve stale for 1 day on error if fetch fails
   };
 };
@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MediaMetadata } from '../types';
+import { configureAnimeMapping, resolveAbsoluteEpisode } from './animeMapping';
+
+const metadata: MediaMetadata = {
+  imdbId: 'tt0388629',
+  type: 'series',
+  title: 'One Piece',
+  aliases: [],
+  episodes: [
+    { season: 0, episode: 1 },
+    { season: 2, episode: 1 },
+    { season: 1, episode: 2 },
+    { season: 1, episode: 1 },
+    { season: 2, episode: 2 },
+  ],
+};
+
+describe('resolveAbsoluteEpisode', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'anime-mapping-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    configureAnimeMapping({});
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('numbers the regular episodes of the provider in season/episode order', () => {
+    expect(resolveAbsoluteEpisode('tt0388629', 2, 1, metadata)).toBe(3);
+    expect(resolveAbsoluteEpisode('tt0388629', 1, 2, metadata)).toBe(2);
+    expect(resolveAbsoluteEpisode('tt0388629', 3, 1, metadata)).toBeUndefined();
+    expect(resolveAbsoluteEpisode('tt0388629', 0, 1, metadata)).toBeUndefined();
+    expect(resolveAbsoluteEpisode('tt0388629', 1, 1)).toBeUndefined();
+  });
+
+  it('prefers the mapping file over the provider', () => {
+    const file = join(dir, 'mapping.json');
+    writeFileSync(file, JSON.stringify({ tt0388629: { 1: 1, 2: 62 } }));
+    configureAnimeMapping({ mappingFile: file });
+    expect(resolveAbsoluteEpisode('tt0388629', 2, 5, metadata)).toBe(66);
+    expect(resolveAbsoluteEpisode('tt0000001', 1, 5)).toBeUndefined();
+  });
+
+  it('ignores a malformed mapping file', () => {
+    const file = join(dir, 'mapping.json');
+    writeFileSync(file, JSON.stringify({ tt0388629: { one: 1 } }));
+    configureAnimeMapping({ mappingFile: file });
+    expect(resolveAbsoluteEpisode('tt0388629', 2, 1, metadata)).toBe(3);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
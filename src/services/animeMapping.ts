@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { MediaMetadata } from '../types';
+
+// Season/episode <-> absolute episode numbers for anime, which is released as "[Group] Show - 137 [1080p]"
+// while Stremio asks for tt…:2:5.
+//
+// Sources, in order:
+// 1. A local mapping file (ANIME_MAPPING_FILE), for shows whose provider numbering is wrong or incomplete:
+//      { "tt0388629": { "1": 1, "2": 62, "3": 78 } }
+//    i.e. per IMDB ID, the absolute number of the first episode of each season.
+// 2. The episode list of the metadata provider: episodes are numbered in season/episode order, specials
+//    (season 0) excluded.
+
+export interface AnimeMappingOptions {
+  mappingFile?: string;
+}
+
+type SeasonStarts = Record<string, number>; // season number -> absolute number of its first episode
+
+let mappings: Record<string, SeasonStarts> = {};
+
+const isValidMapping = (value: unknown): value is Record<string, SeasonStarts> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value as object).every(seasons =>
+    !!seasons && typeof seasons === 'object' &&
+    Object.entries(seasons as object).every(([season, start]) => /^\d+$/.test(season) && Number.isInteger(start) && start > 0));
+
+// Loads the mapping file. An unreadable or malformed file is logged and ignored, so the addon still starts.
+export const configureAnimeMapping = (options: AnimeMappingOptions) => {
+  mappings = {};
+  if (!options.mappingFile) return;
+  try {
+    const parsed = JSON.parse(readFileSync(options.mappingFile, 'utf8'));
+    if (!isValidMapping(parsed)) throw new Error('expected { "<imdbId>": { "<season>": <first absolute episode> } }');
+    mappings = parsed;
+    console.log(`[animeMapping] Loaded absolute numbering for ${Object.keys(mappings).length} series from ${options.mappingFile}.`);
+  } catch (error) {
+    console.warn(`[animeMapping] Ignoring mapping file ${options.mappingFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const fromMappingFile = (imdbId: string, season: number, episode: number): number | undefined => {
+  const start = mappings[imdbId]?.[String(season)];
+  return start !== undefined ? start + episode - 1 : undefined;
+};
+
+const fromEpisodeList = (metadata: MediaMetadata, season: number, episode: number): number | undefined => {
+  const regular = (metadata.episodes || [])
+    .filter(e => e.season > 0)
+    .sort((a, b) => (a.season - b.season) || (a.episode - b.episode));
+  const index = regular.findIndex(e => e.season === season && e.episode === episode);
+  return index >= 0 ? index + 1 : undefined;
+};
+
+// Absolute episode number of S<season>E<episode>, or undefined if no source knows the show.
+export const resolveAbsoluteEpisode = (
+  imdbId: string,
+  season: number,
+  episode: number,
+  metadata?: MediaMetadata
+): number | undefined => {
+  if (season <= 0) return undefined; // Specials have no absolute number
+  return fromMappingFile(imdbId, season, episode) ?? (metadata ? fromEpisodeList(metadata, season, episode) : undefined);
+};
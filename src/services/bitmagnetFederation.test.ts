@@ -0,0 +1,90 @@
+import { AddonConfig, BitmagnetEndpointConfig, SortPreference } from '../types';
+import { getBitmagnetEndpointStats, mergeTorrentsByInfoHash, resolveBitmagnetEndpoints, searchAllBitmagnetEndpoints } from './bitmagnetFederation';
+
+const primary: BitmagnetEndpointConfig = { name: 'primary', url: 'http://primary:3333/graphql', priority: 1 };
+const mirror: BitmagnetEndpointConfig = { name: 'mirror', url: 'http://mirror:3333/graphql' };
+
+describe('mergeTorrentsByInfoHash', () => {
+  it('merges copies of the same torrent, whatever the infoHash case', () => {
+    const merged = mergeTorrentsByInfoHash([
+      { endpoint: mirror, items: [{ infoHash: 'ABC', title: 'Movie.2020.1080p', seeders: 50, size: 1000 }] },
+      { endpoint: primary, items: [{ infoHash: 'abc', title: 'Movie.2020.1080p', seeders: 10 }, { infoHash: 'def', title: 'Other' }] },
+    ]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toEqual({ infoHash: 'ABC', title: 'Movie.2020.1080p', seeders: 50, size: 1000 });
+  });
+
+  it('keeps the richest copy, fills its gaps from the others and takes the highest seeder count', () => {
+    const [merged] = mergeTorrentsByInfoHash([
+      { endpoint: mirror, items: [{ infoHash: 'abc', title: 'Rich', seeders: 5, size: 1000, videoResolution: '1080p' }] },
+      { endpoint: primary, items: [{ infoHash: 'abc', title: 'Poor', seeders: 80, releaseGroup: 'GRP' }] },
+    ]);
+    expect(merged).toEqual({ infoHash: 'abc', title: 'Rich', seeders: 80, size: 1000, videoResolution: '1080p', releaseGroup: 'GRP' });
+  });
+
+  it('prefers the higher-priority endpoint between equally rich copies', () => {
+    const [merged] = mergeTorrentsByInfoHash([
+      { endpoint: mirror, items: [{ infoHash: 'abc', title: 'From mirror' }] },
+      { endpoint: primary, items: [{ infoHash: 'abc', title: 'From primary' }] },
+    ]);
+    expect(merged.title).toBe('From primary');
+  });
+});
+
+describe('searchAllBitmagnetEndpoints', () => {
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('merges the results of the endpoints that answered, tolerating failures', async () => {
+    const results = await searchAllBitmagnetEndpoints([primary, mirror], async endpoint => {
+      if (endpoint === mirror) throw new Error('mirror down');
+      return [{ infoHash: 'abc', title: 'Movie' }];
+    });
+    expect(results).toEqual([{ infoHash: 'abc', title: 'Movie' }]);
+    expect(getBitmagnetEndpointStats().find(stats => stats.name === 'mirror')).toMatchObject({ failures: 1, lastError: 'mirror down' });
+  });
+
+  it('keeps separate stats for endpoints on the same host', async () => {
+    const first: BitmagnetEndpointConfig = { url: 'http://shared:3333/graphql' };
+    const second: BitmagnetEndpointConfig = { url: 'http://shared:3334/graphql' };
+    await searchAllBitmagnetEndpoints([first, second], async endpoint => {
+      if (endpoint === second) throw new Error('second down');
+      return [];
+    });
+    const stats = getBitmagnetEndpointStats().filter(entry => entry.url.startsWith('http://shared:'));
+    expect(stats).toHaveLength(2);
+    expect(stats.find(entry => entry.url === first.url)).toMatchObject({ requests: 1, failures: 0 });
+    expect(stats.find(entry => entry.url === second.url)).toMatchObject({ requests: 1, failures: 1, lastError: 'second down' });
+  });
+
+  it('rejects with the first error when every endpoint fails', async () => {
+    await expect(searchAllBitmagnetEndpoints([primary, mirror], async endpoint => { throw new Error(`${endpoint.name} down`); }))
+      .rejects.toThrow('primary down');
+  });
+
+  it('returns nothing without endpoints', async () => {
+    await expect(searchAllBitmagnetEndpoints([], async () => [{ infoHash: 'abc', title: 'Movie' }])).resolves.toEqual([]);
+  });
+});
+
+describe('resolveBitmagnetEndpoints', () => {
+  const config: AddonConfig = {
+    bitmagnetPublicGraphQLEndpoint: 'http://legacy:3333/graphql',
+    bitmagnetSchemaProfile: 'torrentContent',
+    preferredLanguage: 'ENG',
+    qualitySortOrder: [],
+    filterLowQuality: false,
+    minSeeders: 0,
+    minTitleSimilarity: 0.6,
+    sortPreference: [SortPreference.Seeders],
+  };
+
+  it('falls back to the single legacy endpoint', () => {
+    expect(resolveBitmagnetEndpoints(config, 'key')).toEqual([{ url: 'http://legacy:3333/graphql', apiKey: 'key', schemaProfile: 'torrentContent' }]);
+  });
+
+  it('uses the endpoint list, with the server schema profile as default', () => {
+    const endpoints = resolveBitmagnetEndpoints({ ...config, bitmagnetEndpoints: [primary, { ...mirror, schemaProfile: 'generic' }] });
+    expect(endpoints.map(endpoint => endpoint.schemaProfile)).toEqual(['torrentContent', 'generic']);
+  });
+});
@@ -0,0 +1,162 @@
+import { AddonConfig, BitmagnetEndpointConfig, BitmagnetEndpointStats, BitmagnetResilienceConfig, BitmagnetTorrent, BitmagnetTorrentFile } from '../types';
+import { getBitmagnetCircuitState, queryBitmagnetTorrentFiles } from './bitmagnetService';
+
+// Fans a search out to every configured Bitmagnet instance and merges the results by infoHash.
+// Individual endpoint failures are tolerated as long as at least one endpoint answers.
+
+interface EndpointCounters {
+  requests: number;
+  failures: number;
+  totalLatencyMs: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+}
+
+// Keyed by URL: names default to the host, which two endpoints on the same host (e.g. different ports) can share.
+const statsByEndpoint = new Map<string, { endpoint: BitmagnetEndpointConfig; counters: EndpointCounters }>();
+
+export const getEndpointName = (endpoint: BitmagnetEndpointConfig): string => {
+  if (endpoint.name) return endpoint.name;
+  try {
+    return new URL(endpoint.url).host;
+  } catch {
+    return endpoint.url;
+  }
+};
+
+// The configured endpoint list, or the single legacy endpoint (+ BITMAGNET_API_KEY) when no list is set.
+export const resolveBitmagnetEndpoints = (config: AddonConfig, apiKey?: string): BitmagnetEndpointConfig[] => {
+  if (config.bitmagnetEndpoints && config.bitmagnetEndpoints.length > 0) {
+    return config.bitmagnetEndpoints.map(endpoint => ({
+      ...endpoint,
+      schemaProfile: endpoint.schemaProfile || config.bitmagnetSchemaProfile,
+    }));
+  }
+  if (!config.bitmagnetPublicGraphQLEndpoint) return [];
+  return [{
+    url: config.bitmagnetPublicGraphQLEndpoint,
+    apiKey,
+    schemaProfile: config.bitmagnetSchemaProfile,
+  }];
+};
+
+const recordResult = (endpoint: BitmagnetEndpointConfig, latencyMs: number, error?: unknown) => {
+  const entry = statsByEndpoint.get(endpoint.url) || { endpoint, counters: { requests: 0, failures: 0, totalLatencyMs: 0 } };
+  const counters = entry.counters;
+  entry.endpoint = endpoint;
+  counters.requests++;
+  counters.totalLatencyMs += latencyMs;
+  counters.lastLatencyMs = latencyMs;
+  if (error) {
+    counters.failures++;
+    counters.lastError = error instanceof Error ? error.message : String(error);
+    counters.lastErrorAt = new Date().toISOString();
+  } else {
+    counters.lastSuccessAt = new Date().toISOString();
+  }
+  statsByEndpoint.set(endpoint.url, entry);
+};
+
+export const getBitmagnetEndpointStats = (): BitmagnetEndpointStats[] =>
+  Array.from(statsByEndpoint.values()).map(({ endpoint, counters }) => ({
+    name: getEndpointName(endpoint),
+    url: endpoint.url,
+    requests: counters.requests,
+    failures: counters.failures,
+    avgLatencyMs: counters.requests > 0 ? Math.round(counters.totalLatencyMs / counters.requests) : undefined,
+    lastLatencyMs: counters.lastLatencyMs,
+    lastError: counters.lastError,
+    lastErrorAt: counters.lastErrorAt,
+    lastSuccessAt: counters.lastSuccessAt,
+    circuit: getBitmagnetCircuitState(endpoint.url),
+  }));
+
+// Number of populated fields, used to pick the most informative copy of a torrent.
+const metadataRichness = (torrent: BitmagnetTorrent): number =>
+  Object.values(torrent).filter(value => value !== undefined && value !== null && value !== '').length;
+
+// Merges duplicates across endpoints: the richest record wins (endpoint priority breaks ties), its gaps are
+// filled from the other copies, and the seeder count is the highest any endpoint reported.
+export const mergeTorrentsByInfoHash = (
+  resultSets: Array<{ endpoint: BitmagnetEndpointConfig; items: BitmagnetTorrent[] }>
+): BitmagnetTorrent[] => {
+  const candidates = new Map<string, Array<{ torrent: BitmagnetTorrent; priority: number }>>();
+  for (const { endpoint, items } of resultSets) {
+    for (const torrent of items) {
+      const key = torrent.infoHash.toLowerCase();
+      const list = candidates.get(key) || [];
+      list.push({ torrent, priority: endpoint.priority ?? 0 });
+      candidates.set(key, list);
+    }
+  }
+
+  return Array.from(candidates.values()).map(list => {
+    if (list.length === 1) return list[0].torrent;
+    const ranked = [...list].sort((a, b) =>
+      (metadataRichness(b.torrent) - metadataRichness(a.torrent)) || (b.priority - a.priority));
+    const merged: BitmagnetTorrent = { ...ranked[0].torrent };
+    for (const { torrent } of ranked.slice(1)) {
+      for (const [field, value] of Object.entries(torrent)) {
+        if ((merged[field] === undefined || merged[field] === null) && value !== undefined && value !== null) {
+          merged[field] = value;
+        }
+      }
+    }
+    const seeders = list.map(c => c.torrent.seeders).filter((s): s is number => typeof s === 'number');
+    if (seeders.length > 0) merged.seeders = Math.max(...seeders);
+    return merged;
+  });
+};
+
+// Runs `search` against every endpoint in parallel. Rejects only when all endpoints fail (with the first error).
+export const searchAllBitmagnetEndpoints = async (
+  endpoints: BitmagnetEndpointConfig[],
+  search: (endpoint: BitmagnetEndpointConfig) => Promise<BitmagnetTorrent[]>
+): Promise<BitmagnetTorrent[]> => {
+  if (endpoints.length === 0) return [];
+
+  const settled = await Promise.allSettled(endpoints.map(async endpoint => {
+    const startedAt = Date.now();
+    try {
+      const items = await search(endpoint);
+      recordResult(endpoint, Date.now() - startedAt);
+      return { endpoint, items };
+    } catch (error) {
+      recordResult(endpoint, Date.now() - startedAt, error);
+      throw error;
+    }
+  }));
+
+  const succeeded = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+  const failed = settled.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (succeeded.length === 0) throw failed[0].reason;
+  if (failed.length > 0) {
+    console.warn(`[bitmagnetFederation] ${failed.length} of ${endpoints.length} endpoints failed; continuing with ${succeeded.length}.`);
+  }
+  return mergeTorrentsByInfoHash(succeeded);
+};
+
+// File list of one torrent from the first endpoint (highest priority first) that knows it.
+// Best effort: resolves undefined instead of rejecting, since a missing list only means "can't map the episode".
+export const fetchTorrentFilesFromEndpoints = async (
+  endpoints: BitmagnetEndpointConfig[],
+  infoHash: string,
+  resilience?: BitmagnetResilienceConfig
+): Promise<BitmagnetTorrentFile[] | undefined> => {
+  const ordered = [...endpoints].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  for (const endpoint of ordered) {
+    try {
+      const files = await queryBitmagnetTorrentFiles(infoHash, endpoint.url, endpoint.apiKey, {
+        schemaProfile: endpoint.schemaProfile,
+        resilience,
+        timeoutMs: endpoint.timeoutMs,
+      });
+      if (files.length > 0) return files;
+    } catch (error) {
+      console.warn(`[bitmagnetFederation] Could not list files of ${infoHash} on ${getEndpointName(endpoint)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,94 @@
+import { BitmagnetSearchResponse } from '../types';
+import { getSchemaProfile, matchesContentRef } from './bitmagnetSchemas';
+
+const torrentContent = getSchemaProfile('torrentContent');
+const generic = getSchemaProfile('generic');
+
+const searchResponse = (items: unknown[]): BitmagnetSearchResponse =>
+  ({ data: { torrentContent: { search: { items, totalCount: items.length, hasNextPage: false } } } }) as BitmagnetSearchResponse;
+
+const matrixItem = {
+  infoHash: 'abc',
+  title: 'The Matrix',
+  seeders: 120,
+  videoResolution: 'V1080p',
+  videoSource: 'BLURAY',
+  videoCodec: 'x264',
+  releaseGroup: 'GRP',
+  torrent: { infoHash: 'abc', name: 'The.Matrix.1999.1080p.BluRay.x264-GRP', size: 8e9, filesCount: 3 },
+  content: { type: 'movie', source: 'tmdb', id: '603', title: 'The Matrix', releaseYear: 1999,
+    attributes: [{ source: 'imdb', key: 'id', value: 'tt0133093' }] },
+};
+
+describe('torrentContent profile', () => {
+  it('maps items to torrents, with the release name as title and every external ID', () => {
+    const { items } = torrentContent.parseSearchResponse(searchResponse([matrixItem]), { query: 'The Matrix', limit: 50 });
+    expect(items[0]).toMatchObject({
+      infoHash: 'abc',
+      title: 'The.Matrix.1999.1080p.BluRay.x264-GRP',
+      seeders: 120,
+      size: 8e9,
+      source: 'BluRay',
+      videoResolution: '1080p',
+      releaseDate: '1999-01-01',
+      contentExternalIds: { tmdb: '603', imdb: 'tt0133093' },
+      releaseGroup: 'GRP',
+    });
+  });
+
+  it('keeps only the torrents linked to the requested content', () => {
+    const other = { ...matrixItem, infoHash: 'def', content: { ...matrixItem.content, id: '604', attributes: [] } };
+    const { items } = torrentContent.parseSearchResponse(searchResponse([matrixItem, other]),
+      { query: 'The Matrix', limit: 50, contentRef: { source: 'imdb', id: 'TT0133093' } });
+    expect(items.map(item => item.infoHash)).toEqual(['abc']);
+  });
+
+  it('searches the query text for a content reference, as the search input has no content filter', () => {
+    const { variables } = torrentContent.buildSearchRequest({ query: 'The Matrix', limit: 50, contentRef: { source: 'imdb', id: 'tt0133093' } });
+    expect(variables.input.queryString).toBe('The Matrix');
+    expect(JSON.stringify(variables)).not.toContain('tt0133093');
+  });
+
+  it('turns exclusions into include-list facets that keep unclassified torrents', () => {
+    const { variables } = torrentContent.buildSearchRequest({
+      query: 'The Matrix', limit: 50, page: 2, contentType: 'MOVIE', year: 1999,
+      filters: { excludeResolutions: ['480P', '360P'], excludeSources: ['CAM', 'TS'], languages: ['fr'] },
+    });
+    const { facets, page } = variables.input;
+    expect(page).toBe(2);
+    expect(facets.contentType).toEqual({ filter: ['movie'] });
+    expect(facets.releaseYear).toEqual({ filter: [1999] });
+    expect(facets.videoResolution.filter).not.toContain('V480p');
+    expect(facets.videoResolution.filter).toContain('V1080p');
+    expect(facets.videoResolution.filter).toContain(null);
+    expect(facets.videoSource.filter).not.toContain('CAM');
+    expect(facets.videoSource.filter).not.toContain('TELESYNC');
+    expect(facets.videoSource.filter).toContain('BluRay');
+    expect(facets.language).toEqual({ filter: ['fr'] });
+  });
+
+  it('reads file lists', () => {
+    const files = torrentContent.parseFilesResponse({ data: { torrent: { files: { items: [{ infoHash: 'abc', index: 2, path: 'S01E03.mkv', size: 1e9 }] } } } } as BitmagnetSearchResponse);
+    expect(files).toEqual([{ path: 'S01E03.mkv', size: 1e9, fileIndex: 2 }]);
+  });
+});
+
+describe('generic profile', () => {
+  it('pages by offset and passes the content reference as variables', () => {
+    const { variables } = generic.buildSearchRequest({ query: 'The Matrix', limit: 50, page: 3, contentRef: { source: 'imdb', id: 'tt0133093' } });
+    expect(variables).toMatchObject({ query: 'The Matrix', limit: 50, offset: 100, contentSource: 'imdb', contentId: 'tt0133093' });
+  });
+});
+
+describe('matchesContentRef / getSchemaProfile', () => {
+  it('compares external IDs case-insensitively', () => {
+    expect(matchesContentRef({ infoHash: 'abc', title: 'x', contentExternalIds: { imdb: 'tt0133093' } }, { source: 'IMDB', id: 'TT0133093' })).toBe(true);
+    expect(matchesContentRef({ infoHash: 'abc', title: 'x' }, { source: 'imdb', id: 'tt0133093' })).toBe(false);
+  });
+
+  it('falls back to the default profile for unknown names', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(getSchemaProfile('nope').name).toBe('torrentContent');
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,334 @@
+import {
+  BitmagnetContentRef,
+  BitmagnetSchemaProfile,
+  BitmagnetSchemaProfileName,
+  BitmagnetSearchFilters,
+  BitmagnetSearchParams,
+  BitmagnetSearchResponse,
+  BitmagnetTorrent,
+  BitmagnetTorrentContentItem,
+  BitmagnetTorrentFile,
+} from '../types';
+
+export const DEFAULT_BITMAGNET_SCHEMA_PROFILE: BitmagnetSchemaProfileName = 'torrentContent';
+
+// --- Profile: real Bitmagnet schema (torrentContent.search) ---
+
+const TORRENT_CONTENT_SEARCH_QUERY = `
+  query TorrentContentSearch($input: TorrentContentSearchQueryInput!) {
+    torrentContent {
+      search(input: $input) {
+        items {
+          infoHash
+          contentType
+          title
+          seeders
+          leechers
+          publishedAt
+          videoResolution
+          videoSource
+          videoCodec
+          video3d
+          videoModifier
+          releaseGroup
+          languages { id name }
+          torrent {
+            infoHash
+            name
+            size
+            filesStatus
+            filesCount
+            tagNames
+          }
+          content {
+            type
+            source
+            id
+            title
+            originalTitle
+            releaseDate
+            releaseYear
+            attributes { source key value }
+          }
+        }
+        totalCount
+        hasNextPage
+      }
+    }
+  }
+`;
+
+// Bitmagnet's ContentType enum values
+const TORRENT_CONTENT_TYPES: Record<string, string> = {
+  MOVIE: 'movie',
+  SERIES: 'tv_show',
+};
+
+// Bitmagnet VideoSource enum -> the source terms our parser and QUALITY_RANK_MAP understand
+const TORRENT_CONTENT_VIDEO_SOURCES: Record<string, string> = {
+  BLURAY: 'BluRay',
+  WEBDL: 'WEB-DL',
+  WEBRIP: 'WEBRip',
+  TV: 'HDTV',
+  DVD: 'DVDRip',
+  CAM: 'CAM',
+  TELESYNC: 'TS',
+  TELECINE: 'TC',
+  WORKPRINT: 'CAM', // Workprints are treated as low quality, same as CAM
+};
+
+// Bitmagnet's VideoResolution / VideoSource enum values, for building include-list facets
+const TORRENT_CONTENT_RESOLUTION_VALUES = ['V360p', 'V480p', 'V540p', 'V576p', 'V720p', 'V1080p', 'V1440p', 'V2160p', 'V4320p'];
+const TORRENT_CONTENT_SOURCE_VALUES = ['CAM', 'TELESYNC', 'TELECINE', 'WORKPRINT', 'DVD', 'TV', 'WEBDL', 'WEBRip', 'BluRay'];
+
+// "V1080p" -> "1080p"
+const mapVideoResolution = (value?: string | null): string | undefined => {
+  if (!value) return undefined;
+  return value.replace(/^V/i, '').toLowerCase();
+};
+
+const mapVideoSource = (value?: string | null): string | undefined => {
+  if (!value) return undefined;
+  return TORRENT_CONTENT_VIDEO_SOURCES[value.toUpperCase()] || value;
+};
+
+// Collects every external ID Bitmagnet knows for the linked content: its own source/id plus "id" attributes
+// from other sources (e.g. a tmdb-sourced movie carries { source: "imdb", key: "id", value: "tt…" }).
+const collectExternalIds = (content?: BitmagnetTorrentContentItem['content']): Record<string, string> | undefined => {
+  if (!content) return undefined;
+  const ids: Record<string, string> = {};
+  if (content.source && content.id) ids[content.source.toLowerCase()] = content.id;
+  for (const attribute of content.attributes || []) {
+    if (attribute.key === 'id' && attribute.source && attribute.value && !ids[attribute.source.toLowerCase()]) {
+      ids[attribute.source.toLowerCase()] = attribute.value;
+    }
+  }
+  return Object.keys(ids).length > 0 ? ids : undefined;
+};
+
+export const matchesContentRef = (torrent: BitmagnetTorrent, ref: BitmagnetContentRef): boolean => {
+  return torrent.contentExternalIds?.[ref.source.toLowerCase()]?.toLowerCase() === ref.id.toLowerCase();
+};
+
+const mapTorrentContentItem = (item: BitmagnetTorrentContentItem): BitmagnetTorrent => {
+  const torrent = item.torrent || undefined;
+  const content = item.content || undefined;
+  const releaseYear = content?.releaseYear;
+  return {
+    infoHash: item.infoHash || torrent?.infoHash || '',
+    // The torrent name is the release name our parser expects; item.title is Bitmagnet's cleaned title
+    title: torrent?.name || item.title || 'Unknown Title',
+    name: torrent?.name,
+    seeders: item.seeders ?? undefined,
+    leechers: item.leechers ?? undefined,
+    size: torrent?.size ?? undefined,
+    source: mapVideoSource(item.videoSource),
+    videoResolution: mapVideoResolution(item.videoResolution),
+    videoCodec: item.videoCodec || undefined,
+    releaseDate: content?.releaseDate || (releaseYear ? `${releaseYear}-01-01` : undefined),
+    filesStatus: torrent?.filesStatus || undefined,
+    filesCount: torrent?.filesCount ?? undefined,
+    tags: torrent?.tagNames || undefined,
+    metadata: {
+      video_resolution: item.videoResolution || undefined,
+      video_codec: item.videoCodec || undefined,
+      video_source: item.videoSource || undefined,
+    },
+    contentType: item.contentType || content?.type || undefined,
+    contentSource: content?.source || undefined,
+    contentId: content?.id || undefined,
+    contentTitle: content?.title || item.title || undefined,
+    contentExternalIds: collectExternalIds(content),
+    releaseGroup: item.releaseGroup || undefined,
+  };
+};
+
+const TORRENT_FILES_QUERY = `
+  query TorrentFiles($input: TorrentFilesQueryInput!) {
+    torrent {
+      files(input: $input) {
+        items {
+          infoHash
+          index
+          path
+          size
+          fileType
+        }
+      }
+    }
+  }
+`;
+
+// Facets only take include lists, so exclusions become "every other value". null keeps torrents Bitmagnet
+// couldn't classify, which processStreamRequest judges from the title instead.
+const buildTorrentContentFilterFacets = (filters: BitmagnetSearchFilters): Record<string, { filter: Array<string | null> }> => {
+  const facets: Record<string, { filter: Array<string | null> }> = {};
+  if (filters.excludeResolutions?.length) {
+    const excluded = filters.excludeResolutions.map(r => r.toUpperCase());
+    facets.videoResolution = {
+      filter: [...TORRENT_CONTENT_RESOLUTION_VALUES.filter(value => !excluded.includes(mapVideoResolution(value)!.toUpperCase())), null],
+    };
+  }
+  if (filters.excludeSources?.length) {
+    const excluded = filters.excludeSources.map(s => s.toUpperCase());
+    facets.videoSource = {
+      filter: [...TORRENT_CONTENT_SOURCE_VALUES.filter(value => !excluded.includes(mapVideoSource(value)!.toUpperCase())), null],
+    };
+  }
+  if (filters.languages?.length) facets.language = { filter: filters.languages };
+  return facets;
+};
+
+const torrentContentProfile: BitmagnetSchemaProfile = {
+  name: 'torrentContent',
+  buildSearchRequest: (params: BitmagnetSearchParams) => {
+    const facets: Record<string, { filter: Array<string | number | null> }> = params.filters ? buildTorrentContentFilterFacets(params.filters) : {};
+    const contentType = params.contentType ? TORRENT_CONTENT_TYPES[params.contentType.toUpperCase()] : undefined;
+    if (contentType) facets.contentType = { filter: [contentType] };
+    if (params.year !== undefined) facets.releaseYear = { filter: [params.year] };
+    return {
+      query: TORRENT_CONTENT_SEARCH_QUERY,
+      variables: {
+        input: {
+          // TorrentContentSearchQueryInput has no content or external ID filter (its facets cover type, year, quality,
+          // language...), so a content reference search is a text search like any other, for the title when the
+          // caller knows it, and parseSearchResponse keeps only the torrents linked to the reference.
+          queryString: params.query,
+          limit: params.limit,
+          page: params.page ?? 1,
+          totalCount: true,
+          hasNextPage: true,
+          facets,
+        },
+      },
+    };
+  },
+  parseSearchResponse: (response: BitmagnetSearchResponse, params: BitmagnetSearchParams) => {
+    const search = response.data?.torrentContent?.search;
+    let items = (search?.items || []).map(mapTorrentContentItem).filter(t => t.infoHash);
+    if (params.contentRef) {
+      const ref = params.contentRef;
+      items = items.filter(t => matchesContentRef(t, ref));
+    }
+    return {
+      items,
+      totalCount: search?.totalCount,
+      hasNextPage: search?.hasNextPage,
+    };
+  },
+  buildFilesRequest: (infoHash: string, limit: number) => ({
+    query: TORRENT_FILES_QUERY,
+    variables: { input: { infoHashes: [infoHash], limit } },
+  }),
+  parseFilesResponse: (response: BitmagnetSearchResponse): BitmagnetTorrentFile[] =>
+    (response.data?.torrent?.files?.items || []).map(file => ({ path: file.path, size: file.size, fileIndex: file.index })),
+};
+
+// --- Profile: generic / legacy hypothetical schema ---
+
+// This is a HYPOTHETICAL GraphQL query kept for Bitmagnet forks or proxies exposing a `searchContent` field.
+// Adapt it to your instance's schema if you select the 'generic' profile.
+const GENERIC_SEARCH_QUERY = `
+  query SearchContentActive(
+    $query: String!,
+    $limit: Int,
+    $offset: Int,
+    $contentType: ContentType, # Make sure ContentType enum (MOVIE, SERIES, etc.) exists in your Bitmagnet schema
+    $year: Int,
+    $contentSource: String,
+    $contentId: String
+  ) {
+    searchContent( # Or searchTorrents, contents, etc.
+        query: $query,
+        limit: $limit,
+        offset: $offset,
+        filter: {
+            # Note: The exact filter structure depends heavily on your schema.
+            # This is an example assuming 'contentType' is a direct filter field.
+            contentType: $contentType,
+            # Some schemas might support 'year' directly on the content:
+            # year: $year,
+            # Content reference filter (e.g. contentSource: "imdb", contentId: "tt0133093"):
+            contentSource: $contentSource,
+            contentId: $contentId,
+        },
+        orderBy: {seeders: DESC} # Or { field: SEEDERS, direction: DESC } or similar
+    ) {
+      items {
+        infoHash
+        name # Often 'name' for the release title
+        title # Some schemas might use 'title' instead of 'name'
+        seeders
+        leechers
+        size # Size in bytes
+        source # e.g. "BLURAY", "WEB" - if your schema provides this directly
+        releaseDate # Can be used to extract year. e.g. "2023-10-26T00:00:00Z" or "2023-10-26"
+        filesStatus # Useful to know if files are indexed, e.g., for series packs
+        filesCount
+      }
+      count # Or totalCount, depending on your schema
+    }
+  }
+`;
+
+// Hypothetical file listing query for the generic profile; adapt like GENERIC_SEARCH_QUERY.
+const GENERIC_FILES_QUERY = `
+  query SearchTorrentFiles($infoHash: String!, $limit: Int) {
+    searchTorrentFiles(infoHash: $infoHash, limit: $limit) {
+      items {
+        path
+        size
+        fileIndex
+      }
+    }
+  }
+`;
+
+const genericProfile: BitmagnetSchemaProfile = {
+  name: 'generic',
+  buildSearchRequest: (params: BitmagnetSearchParams) => {
+    const variables: Record<string, any> = { query: params.query, limit: params.limit };
+    if (params.page && params.page > 1) variables.offset = (params.page - 1) * params.limit;
+    if (params.contentType) variables.contentType = params.contentType;
+    // Sent regardless; its use depends on GENERIC_SEARCH_QUERY.
+    if (params.year !== undefined) variables.year = params.year;
+    if (params.contentRef) {
+      variables.contentSource = params.contentRef.source;
+      variables.contentId = params.contentRef.id;
+    }
+    return { query: GENERIC_SEARCH_QUERY, variables };
+  },
+  // Content reference filtering happens server-side in this profile. params.filters aren't expressible in
+  // GENERIC_SEARCH_QUERY and are left to processStreamRequest.
+  parseSearchResponse: (response: BitmagnetSearchResponse) => {
+    const items = response.data?.searchContent?.items || response.data?.searchTorrents?.items || response.items || [];
+    return {
+      items: items.map(item => ({
+        ...item,
+        // Prefer 'name' for title, fallback to 'title' field if 'name' is not present or empty
+        title: item.name || item.title || "Unknown Title",
+      })),
+      totalCount: response.data?.searchContent?.count ?? response.data?.searchTorrents?.totalCount,
+    };
+  },
+  buildFilesRequest: (infoHash: string, limit: number) => ({
+    query: GENERIC_FILES_QUERY,
+    variables: { infoHash, limit },
+  }),
+  parseFilesResponse: (response: BitmagnetSearchResponse): BitmagnetTorrentFile[] =>
+    response.data?.searchTorrentFiles?.items || [],
+};
+
+const SCHEMA_PROFILES: Record<BitmagnetSchemaProfileName, BitmagnetSchemaProfile> = {
+  torrentContent: torrentContentProfile,
+  generic: genericProfile,
+};
+
+export const BITMAGNET_SCHEMA_PROFILE_NAMES = Object.keys(SCHEMA_PROFILES) as BitmagnetSchemaProfileName[];
+
+export const getSchemaProfile = (name?: BitmagnetSchemaProfileName | string): BitmagnetSchemaProfile => {
+  if (name && !(name in SCHEMA_PROFILES)) {
+    console.warn(`[bitmagnetSchemas] Unknown schema profile '${name}', using '${DEFAULT_BITMAGNET_SCHEMA_PROFILE}'.`);
+  }
+  return SCHEMA_PROFILES[name as BitmagnetSchemaProfileName] || SCHEMA_PROFILES[DEFAULT_BITMAGNET_SCHEMA_PROFILE];
+};
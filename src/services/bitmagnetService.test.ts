@@ -0,0 +1,111 @@
+import { AddonConfig, BitmagnetSearchPage, SortPreference } from '../types';
+import { CircuitOpenError } from '../utils/resilience';
+import { BitmagnetHttpError, buildSearchFilters, isBitmagnetUnavailableError, paginateBitmagnetSearch, queryBitmagnetPage } from './bitmagnetService';
+
+const config: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: [],
+  filterLowQuality: false,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+describe('buildSearchFilters', () => {
+  it('pushes nothing down by default', () => {
+    expect(buildSearchFilters(config)).toBeUndefined();
+  });
+
+  it('excludes low quality resolutions and sources', () => {
+    const filters = buildSearchFilters({ ...config, filterLowQuality: true });
+    expect(filters?.excludeResolutions).toContain('480P');
+    expect(filters?.excludeSources).toContain('CAM');
+  });
+
+  it('restricts languages by ISO 639-1 code, unless English is preferred', () => {
+    expect(buildSearchFilters({ ...config, restrictToPreferredLanguage: true, preferredLanguages: ['pt-BR', 'fr'] })).toEqual({ languages: ['pt', 'fr'] });
+    expect(buildSearchFilters({ ...config, restrictToPreferredLanguage: true, preferredLanguages: ['fr', 'en'] })).toBeUndefined();
+  });
+});
+
+describe('paginateBitmagnetSearch', () => {
+  const budget = { pageSize: 2, maxResults: 5, timeBudgetMs: 8000, targetCandidates: 20 };
+  const page = (n: number, hasNextPage = true): BitmagnetSearchPage =>
+    ({ items: [{ infoHash: `${n}a`, title: 'a' }, { infoHash: `${n}b`, title: 'b' }], hasNextPage });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('stops when Bitmagnet has no further page', async () => {
+    const fetchPage = jest.fn(async (n: number) => page(n, n < 2));
+    expect(await paginateBitmagnetSearch(fetchPage, budget, Date.now() + 10_000)).toHaveLength(4);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at the result budget', async () => {
+    const fetchPage = jest.fn(async (n: number) => page(n));
+    expect(await paginateBitmagnetSearch(fetchPage, budget, Date.now() + 10_000)).toHaveLength(5);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops once enough was collected, or the deadline has passed', async () => {
+    const fetchPage = jest.fn(async (n: number) => page(n));
+    await paginateBitmagnetSearch(fetchPage, budget, Date.now() + 10_000, collected => collected.length >= 2);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    fetchPage.mockClear();
+    await paginateBitmagnetSearch(fetchPage, budget, Date.now() - 1);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('propagates a failing first page, and keeps what it has when a later one fails', async () => {
+    await expect(paginateBitmagnetSearch(async () => { throw new Error('down'); }, budget, Date.now() + 10_000)).rejects.toThrow('down');
+    const fetchPage = jest.fn(async (n: number) => { if (n > 1) throw new Error('down'); return page(n); });
+    expect(await paginateBitmagnetSearch(fetchPage, budget, Date.now() + 10_000)).toHaveLength(2);
+  });
+});
+
+describe('queryBitmagnetPage', () => {
+  const resilience = { retries: 2, retryBaseDelayMs: 0, retryMaxDelayMs: 0, breakerFailureThreshold: 2, breakerCooldownMs: 60_000 };
+  const ok = (items: unknown[]) => new Response(JSON.stringify({ data: { torrentContent: { search: { items, hasNextPage: false } } } }), { status: 200 });
+  const item = { infoHash: 'abc', torrent: { name: 'Movie.2020.1080p.WEB-DL.x264' } };
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+    for (const method of ['debug', 'warn', 'error'] as const) jest.spyOn(console, method).mockImplementation(() => undefined);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('retries transient errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('busy', { status: 503, statusText: 'Service Unavailable' })).mockResolvedValueOnce(ok([item]));
+    const result = await queryBitmagnetPage('Movie', 2020, 50, 'http://retry:3333/graphql', 'MOVIE', undefined, { resilience });
+    expect(result.items.map(torrent => torrent.title)).toEqual(['Movie.2020.1080p.WEB-DL.x264']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry GraphQL errors, nor count them against the circuit', async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ errors: [{ message: 'Cannot query field' }] }), { status: 200 }));
+    const endpoint = 'http://graphql-error:3333/graphql';
+    for (let i = 0; i < 3; i++) {
+      await expect(queryBitmagnetPage('Movie', 2020, 50, endpoint, 'MOVIE', undefined, { resilience })).rejects.toThrow('Cannot query field');
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('opens the circuit after repeated transient failures and then fails fast', async () => {
+    fetchMock.mockImplementation(async () => new Response('down', { status: 502, statusText: 'Bad Gateway' }));
+    const endpoint = 'http://down:3333/graphql';
+    for (let i = 0; i < 2; i++) {
+      await expect(queryBitmagnetPage('Movie', 2020, 50, endpoint, 'MOVIE', undefined, { resilience })).rejects.toBeInstanceOf(BitmagnetHttpError);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    const error = await queryBitmagnetPage('Movie', 2020, 50, endpoint, 'MOVIE', undefined, { resilience }).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(isBitmagnetUnavailableError(error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+});
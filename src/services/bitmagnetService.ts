@@ -1,92 +1,125 @@
-import { BitmagnetTorrent, BitmagnetSearchResponse } from '../types'; // Adjusted path
-
-// This is a HYPOTHETICAL GraphQL query. You MUST adapt it to your Bitmagnet instance's actual schema.
-// Check your Bitmagnet GraphQL schema (e.g., via its GraphiQL interface if available).
-// Common Bitmagnet schemas might use 'contents' instead of 'torrents', and different filter/sort arguments.
-// This example includes contentType and year as potential filter variables.
-const ACTIVE_BITMAGNET_GRAPHQL_QUERY = `
-  query SearchContentActive(
-    $query: String!, 
-    $limit: Int, 
-    $contentType: ContentType, # Make sure ContentType enum (MOVIE, SERIES, etc.) exists in your Bitmagnet schema
-    $year: Int 
-  ) {
-    searchContent( # Or searchTorrents, contents, etc.
-        query: $query, 
-        limit: $limit, 
-        filter: { 
-            # Note: The exact filter structure depends heavily on your Bitmagnet's schema.
-            # This is an example assuming 'contentType' and 'year' are direct filter fields.
-            contentType: $contentType,
-            # Some schemas might support 'year' directly on the content:
-            # year: $year,
-            # Others might require filtering on 'releaseDate' for year:
-            # releaseDate: { gte: "${'$year'}-01-01T00:00:00Z", lte: "${'$year'}-12-31T23:59:59Z" }
-            # The above date range example is complex to inject safely with variables;
-            # direct year filter or post-fetch filtering is often simpler if available.
-            # This query assumes your schema *might* use $year in some way, 
-            # but it's commented out to prevent errors if not supported.
-            # Modify according to your schema's capabilities for year filtering.
-        }, 
-        orderBy: {seeders: DESC} # Or { field: SEEDERS, direction: DESC } or similar
-    ) {
-      items {
-        infoHash
-        name # Bitmagnet often uses 'name' for the release title
-        title # Some schemas might use 'title' instead of 'name'
-        seeders
-        leechers
-        size # Size in bytes
-        source # e.g. "BLURAY", "WEB" - if your schema provides this directly
-        releaseDate # Can be used to extract year. e.g. "2023-10-26T00:00:00Z" or "2023-10-26"
-        filesStatus # Useful to know if files are indexed, e.g., for series packs
-        filesCount
-        # For richer data directly from Bitmagnet (highly recommended if available in your schema):
-        # videoResolution: videoResolution # replace with actual field name
-        # videoCodec: videoCodec           # replace with actual field name
-        # audioCodec: audioCodec           # replace with actual field name
-        # tags: tags                       # if your schema has a tags field
-        # files(limit: 10, orderBy: {path: ASC}) { # If you need file list for series packs
-        #   items { path size fileIndex }
-        # }
-      }
-      count # Or totalCount, depending on your schema
-    }
-  }
-`;
+import {
+  BitmagnetTorrent,
+  BitmagnetSearchResponse,
+  BitmagnetSchemaProfileName,
+  BitmagnetContentRef,
+  BitmagnetResilienceConfig,
+  BitmagnetTorrentFile,
+  BitmagnetSearchPage,
+  BitmagnetSearchBudget,
+  BitmagnetSearchFilters,
+  AddonConfig,
+} from '../types'; // Adjusted path
+import { LOW_QUALITY_RESOLUTIONS, LOW_QUALITY_TERMS } from '../constants';
+import { baseLanguage, preferredLanguageCodes } from '../utils/languages';
+import { getSchemaProfile } from './bitmagnetSchemas';
+import { CircuitBreaker, CircuitOpenError, CircuitState, createCircuitBreaker, withRetry } from '../utils/resilience';
 
+export interface BitmagnetQueryOptions {
+  schemaProfile?: BitmagnetSchemaProfileName; // Which GraphQL schema shape to use (see bitmagnetSchemas.ts)
+  contentRef?: BitmagnetContentRef; // Only keep torrents linked to this content (e.g. imdb tt…)
+  resilience?: BitmagnetResilienceConfig; // Retry/breaker tuning, DEFAULT_BITMAGNET_RESILIENCE if unset
+  timeoutMs?: number; // Per-attempt request timeout, DEFAULT_BITMAGNET_TIMEOUT if unset
+  page?: number; // 1-based result page, 1 if unset
+  filters?: BitmagnetSearchFilters; // Server-side narrowing, see buildSearchFilters
+}
 
-export const queryBitmagnet = async (
-  query: string,
-  year: number | undefined,
-  limit: number = 50,
-  endpoint: string,
-  contentType?: 'MOVIE' | 'SERIES' | string, // More specific type
-  apiKey?: string
-): Promise<BitmagnetTorrent[]> => {
-  if (!endpoint || endpoint.trim() === '' || endpoint === 'https://api.example.com/graphql') {
-    console.warn("[bitmagnetService] Bitmagnet GraphQL endpoint is not configured or is set to a placeholder. Returning empty results.");
-    return [];
+export const DEFAULT_BITMAGNET_TIMEOUT = 20000; // 20 seconds
+const MAX_TORRENT_FILES = 1000; // Upper bound for a single torrent's file listing
+
+export const DEFAULT_BITMAGNET_RESILIENCE: BitmagnetResilienceConfig = {
+  retries: 2,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 5000,
+  breakerFailureThreshold: 5,
+  breakerCooldownMs: 30000,
+};
+
+export const DEFAULT_BITMAGNET_SEARCH_BUDGET: BitmagnetSearchBudget = {
+  pageSize: 50,
+  maxResults: 200,
+  timeBudgetMs: 8000,
+  targetCandidates: 20,
+};
+
+// Translates the user's filtering preferences into server-side search filters, so result pages aren't spent
+// on releases processStreamRequest would throw away. Undefined when nothing can be pushed down.
+// filterLowQuality only hides low quality releases when better ones exist, so callers must retry without
+// filters when a filtered search comes back empty.
+export const buildSearchFilters = (config: AddonConfig): BitmagnetSearchFilters | undefined => {
+  const filters: BitmagnetSearchFilters = {};
+  if (config.filterLowQuality) {
+    filters.excludeResolutions = [...LOW_QUALITY_RESOLUTIONS];
+    filters.excludeSources = [...LOW_QUALITY_TERMS];
   }
-  
-  const variables: { 
-    query: string; 
-    limit: number; 
-    contentType?: 'MOVIE' | 'SERIES' | string; 
-    year?: number;
-  } = {
-    query,
-    limit,
-  };
+  // Bitmagnet classifies by ISO 639-1 code, without regions
+  const isoCodes = Array.from(new Set(preferredLanguageCodes(config).map(baseLanguage).filter(code => code.length === 2)));
+  // The facet drops releases without a language tag, which processStreamRequest counts as English: with English
+  // among the preferred languages most results would go missing, so the restriction is then applied in-process only.
+  if (config.restrictToPreferredLanguage && isoCodes.length > 0 && !isoCodes.includes('en')) {
+    filters.languages = isoCodes;
+  }
+  return Object.keys(filters).length > 0 ? filters : undefined;
+};
 
-  if (contentType) {
-    variables.contentType = contentType;
+// Non-2xx HTTP response from Bitmagnet. Kept distinct so retries can tell transient statuses apart.
+export class BitmagnetHttpError extends Error {
+  constructor(public readonly status: number, statusText: string) {
+    super(`Bitmagnet API request failed: ${status} ${statusText}.`);
+    this.name = 'BitmagnetHttpError';
   }
-  // Only add year to variables if it's defined AND your GraphQL query is adapted to use a $year variable.
-  if (year !== undefined) {
-    variables.year = year; // This will be sent; its use depends on ACTIVE_BITMAGNET_GRAPHQL_QUERY.
+}
+
+const TRANSIENT_HTTP_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+// Transient = worth retrying: timeouts, connection failures and overload/gateway statuses.
+// GraphQL errors and other 4xx responses are deterministic and fail immediately.
+const isTransientBitmagnetError = (error: unknown): boolean => {
+  if (error instanceof BitmagnetHttpError) return TRANSIENT_HTTP_STATUSES.includes(error.status);
+  if (error instanceof Error) {
+    // fetch() rejects with TypeError on network failures; AbortSignal.timeout() with TimeoutError
+    return error.name === 'TimeoutError' || error.name === 'AbortError' || error.name === 'TypeError';
   }
-  
+  return false;
+};
+
+// True when Bitmagnet itself is unreachable/unhealthy (as opposed to a bad query): the circuit is open,
+// or a transient error persisted through all retries.
+export const isBitmagnetUnavailableError = (error: unknown): boolean =>
+  error instanceof CircuitOpenError || isTransientBitmagnetError(error);
+
+// One breaker per endpoint, so a dead instance doesn't trip others.
+const breakers = new Map<string, CircuitBreaker>();
+
+const getBreaker = (endpoint: string, resilience: BitmagnetResilienceConfig): CircuitBreaker => {
+  let breaker = breakers.get(endpoint);
+  if (!breaker) {
+    breaker = createCircuitBreaker(`bitmagnet:${endpoint}`, {
+      failureThreshold: resilience.breakerFailureThreshold,
+      cooldownMs: resilience.breakerCooldownMs,
+      // A query the instance rejects (GraphQL error, 4xx) says nothing about its health
+      isFailure: isTransientBitmagnetError,
+    });
+    breakers.set(endpoint, breaker);
+  }
+  return breaker;
+};
+
+export const getBitmagnetCircuitState = (endpoint: string): CircuitState => breakers.get(endpoint)?.getState() ?? 'closed';
+
+const isPlaceholderEndpoint = (endpoint: string): boolean =>
+  !endpoint || endpoint.trim() === '' || endpoint === 'https://api.example.com/graphql';
+
+// POSTs one GraphQL request with retries behind the endpoint's circuit breaker and returns the parsed body.
+// Shared by every Bitmagnet query so they all count towards the same breaker.
+const postBitmagnetGraphQL = async (
+  endpoint: string,
+  graphqlRequest: { query: string; variables: Record<string, any> },
+  apiKey: string | undefined,
+  options: BitmagnetQueryOptions
+): Promise<BitmagnetSearchResponse> => {
+  const resilience = options.resilience || DEFAULT_BITMAGNET_RESILIENCE;
+
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
@@ -95,23 +128,18 @@ export const queryBitmagnet = async (
     headers['Authorization'] = `Bearer ${apiKey}`; // Or your specific auth scheme
   }
 
-  console.debug(`[bitmagnetService] Sending GraphQL query to ${endpoint}. Query: ${query}, Year: ${year}, ContentType: ${contentType}, Limit: ${limit}`);
-
-  try {
+  const attempt = async (): Promise<BitmagnetSearchResponse> => {
     const response = await fetch(endpoint, {
       method: 'POST',
       headers: headers,
-      body: JSON.stringify({
-        query: ACTIVE_BITMAGNET_GRAPHQL_QUERY,
-        variables: variables,
-      }),
-      signal: AbortSignal.timeout(20000) // 20 second timeout for the request
+      body: JSON.stringify(graphqlRequest),
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_BITMAGNET_TIMEOUT)
     });
 
     if (!response.ok) {
       const errorBody = await response.text();
       console.error(`[bitmagnetService] Bitmagnet API error: ${response.status} ${response.statusText}. Body: ${errorBody.substring(0, 1000)}`);
-      throw new Error(`Bitmagnet API request failed: ${response.status} ${response.statusText}.`);
+      throw new BitmagnetHttpError(response.status, response.statusText);
     }
 
     const jsonResponse: BitmagnetSearchResponse = await response.json();
@@ -121,18 +149,43 @@ export const queryBitmagnet = async (
         console.error("[bitmagnetService] Bitmagnet GraphQL Errors:", errorMessages, JSON.stringify(jsonResponse.errors, null, 2));
         throw new Error(`GraphQL query failed: ${errorMessages}`);
     }
-    
-    const items = jsonResponse.data?.searchContent?.items || jsonResponse.data?.searchTorrents?.items || jsonResponse.items || [];
-    
-    return items.map(item => ({
-        ...item,
-        // Prefer 'name' for title, fallback to 'title' field if 'name' is not present or empty
-        title: item.name || item.title || "Unknown Title", 
-        // Ensure direct mappings match your schema if you uncomment these
-        // videoResolution: item.videoResolution_from_schema, 
-        // videoCodec: item.videoCodec_from_schema,
-    }));
 
+    return jsonResponse;
+  };
+
+  // The breaker wraps the whole retry sequence: one logical query = one success/failure.
+  return getBreaker(endpoint, resilience).execute(() => withRetry(attempt, {
+    retries: resilience.retries,
+    baseDelayMs: resilience.retryBaseDelayMs,
+    maxDelayMs: resilience.retryMaxDelayMs,
+    isRetryable: isTransientBitmagnetError,
+    onRetry: (error, retry, delayMs) => console.warn(`[bitmagnetService] Transient error from ${endpoint} (${error instanceof Error ? error.message : String(error)}); retry ${retry}/${resilience.retries} in ${delayMs}ms.`),
+  }));
+};
+
+// One page of search results, including the paging info the schema reports.
+export const queryBitmagnetPage = async (
+  query: string,
+  year: number | undefined,
+  limit: number = 50,
+  endpoint: string,
+  contentType?: 'MOVIE' | 'SERIES' | string, // More specific type
+  apiKey?: string,
+  options: BitmagnetQueryOptions = {}
+): Promise<BitmagnetSearchPage> => {
+  if (isPlaceholderEndpoint(endpoint)) {
+    console.warn("[bitmagnetService] Bitmagnet GraphQL endpoint is not configured or is set to a placeholder. Returning empty results.");
+    return { items: [], hasNextPage: false };
+  }
+  
+  const profile = getSchemaProfile(options.schemaProfile);
+  const searchParams = { query, year, limit, contentType, contentRef: options.contentRef, page: options.page, filters: options.filters };
+
+  console.debug(`[bitmagnetService] Sending GraphQL query (${profile.name} profile) to ${endpoint}. Query: ${query}, Year: ${year}, ContentType: ${contentType}, ContentRef: ${options.contentRef ? `${options.contentRef.source}:${options.contentRef.id}` : 'none'}, Limit: ${limit}, Page: ${options.page ?? 1}`);
+
+  try {
+    const jsonResponse = await postBitmagnetGraphQL(endpoint, profile.buildSearchRequest(searchParams), apiKey, options);
+    return profile.parseSearchResponse(jsonResponse, searchParams);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('[bitmagnetService] Error querying Bitmagnet:', errorMessage, error);
@@ -140,6 +193,81 @@ export const queryBitmagnet = async (
   }
 };
 
+export const queryBitmagnet = async (
+  query: string,
+  year: number | undefined,
+  limit: number = 50,
+  endpoint: string,
+  contentType?: 'MOVIE' | 'SERIES' | string, // More specific type
+  apiKey?: string,
+  options: BitmagnetQueryOptions = {}
+): Promise<BitmagnetTorrent[]> =>
+  (await queryBitmagnetPage(query, year, limit, endpoint, contentType, apiKey, options)).items;
+
+// Requests consecutive pages via `fetchPage` until the result budget is reached, the deadline has passed,
+// Bitmagnet reports no further pages, or `isEnough` is satisfied by what was collected so far.
+// The first page always goes out and its errors propagate; a failing later page just ends the paging.
+export const paginateBitmagnetSearch = async (
+  fetchPage: (page: number, limit: number) => Promise<BitmagnetSearchPage>,
+  budget: BitmagnetSearchBudget,
+  deadline: number, // Epoch ms
+  isEnough?: (collected: BitmagnetTorrent[]) => boolean
+): Promise<BitmagnetTorrent[]> => {
+  const collected: BitmagnetTorrent[] = [];
+  for (let page = 1; ; page++) {
+    if (page > 1 && Date.now() >= deadline) {
+      console.log(`[bitmagnetService] Search time budget used up after ${page - 1} page(s), ${collected.length} results.`);
+      break;
+    }
+
+    let result: BitmagnetSearchPage;
+    try {
+      result = await fetchPage(page, budget.pageSize);
+    } catch (error) {
+      if (page === 1) throw error;
+      console.warn(`[bitmagnetService] Page ${page} failed (${error instanceof Error ? error.message : String(error)}); keeping ${collected.length} results.`);
+      break;
+    }
+    collected.push(...result.items);
+
+    // Prefer explicit paging info; without it, a full page suggests there may be more.
+    const hasMore = result.hasNextPage
+      ?? (result.totalCount !== undefined ? page * budget.pageSize < result.totalCount : result.items.length >= budget.pageSize);
+    if (!hasMore || result.items.length === 0 || collected.length >= budget.maxResults) break;
+    if (isEnough?.(collected)) {
+      console.log(`[bitmagnetService] Enough candidates after ${page} page(s), ${collected.length} results.`);
+      break;
+    }
+  }
+  return collected.slice(0, budget.maxResults);
+};
+
+// Lists the files inside one torrent (season packs). Files without an index get their position in the list.
+export const queryBitmagnetTorrentFiles = async (
+  infoHash: string,
+  endpoint: string,
+  apiKey?: string,
+  options: BitmagnetQueryOptions = {},
+  limit: number = MAX_TORRENT_FILES
+): Promise<BitmagnetTorrentFile[]> => {
+  if (isPlaceholderEndpoint(endpoint)) return [];
+
+  const profile = getSchemaProfile(options.schemaProfile);
+  console.debug(`[bitmagnetService] Fetching file list (${profile.name} profile) for ${infoHash} from ${endpoint}.`);
+
+  try {
+    const jsonResponse = await postBitmagnetGraphQL(endpoint, profile.buildFilesRequest(infoHash, limit), apiKey, options);
+    return profile.parseFilesResponse(jsonResponse).map((file, position) => ({
+      ...file,
+      fileIndex: file.fileIndex ?? position,
+    }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[bitmagnetService] Error fetching files for ${infoHash}:`, errorMessage);
+    throw error;
+  }
+};
+
 
 // Example Mock Data (useful for testing addonService logic without a live Bitmagnet endpoint)
 export const MOCK_BITMAGNET_RESULTS_FOR_TESTING: BitmagnetTorrent[] = [
@@ -0,0 +1,55 @@
+import { AddonConfig, SortPreference, StremioStream } from '../types';
+import { DEVICE_PROFILES } from '../constants';
+import { parseTorrentTitle } from './metadataParser';
+import { applyDeviceProfile, findIncompatibilities, normalizeVideoCodec, resolutionLines } from './deviceCompatibility';
+
+const config: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: [],
+  filterLowQuality: false,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+const stream = (title: string): StremioStream => ({ infoHash: title, parsedMeta: parseTorrentTitle(title) });
+
+describe('normalizeVideoCodec / resolutionLines', () => {
+  it('normalizes release name spellings', () => {
+    expect(normalizeVideoCodec('x265')).toBe('HEVC');
+    expect(normalizeVideoCodec('H.264')).toBe('H264');
+    expect(normalizeVideoCodec('XviD')).toBe('MPEG4');
+    expect(normalizeVideoCodec(undefined)).toBeUndefined();
+    expect(resolutionLines('4K')).toBe(2160);
+    expect(resolutionLines('1080p')).toBe(1080);
+    expect(resolutionLines('SD')).toBeUndefined();
+  });
+});
+
+describe('findIncompatibilities', () => {
+  it('names what the device cannot play', () => {
+    expect(findIncompatibilities(stream('Movie.2020.2160p.BluRay.DV.TrueHD.7.1.x265'), DEVICE_PROFILES['lg-webos']))
+      .toEqual(['Dolby Vision', 'TrueHD']);
+    expect(findIncompatibilities(stream('Movie.2020.2160p.WEB-DL.x265'), DEVICE_PROFILES.web)).toEqual(['HEVC', '2160P']);
+    expect(findIncompatibilities(stream('Movie.2020.1080p.WEB-DL.AAC.x264'), DEVICE_PROFILES.web)).toEqual([]);
+  });
+
+  it('accepts dual-layer HDR and multi-audio releases when one layer or track is supported', () => {
+    expect(findIncompatibilities(stream('Movie.2020.2160p.BluRay.DV.HDR10.TrueHD.DD5.1.x265'), DEVICE_PROFILES['lg-webos'])).toEqual([]);
+  });
+});
+
+describe('applyDeviceProfile', () => {
+  const streams = [stream('Movie.2020.2160p.BluRay.DTS-HD.MA.x265'), stream('Movie.2020.1080p.WEB-DL.AAC.x264')];
+
+  it('marks incompatible streams, and drops them in drop mode', () => {
+    const marked = applyDeviceProfile(streams, { ...config, deviceProfile: 'lg-webos' });
+    expect(marked.map(s => s.incompatibilities)).toEqual([['DTS-HD'], []]);
+    expect(applyDeviceProfile(streams, { ...config, deviceProfile: 'lg-webos', deviceCompatibilityMode: 'drop' })).toHaveLength(1);
+  });
+
+  it('flags streams browsers cannot decode as not web ready, whatever the profile', () => {
+    expect(applyDeviceProfile(streams, config).map(s => s.behaviorHints?.notWebReady)).toEqual([true, undefined]);
+  });
+});
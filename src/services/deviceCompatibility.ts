@@ -0,0 +1,82 @@
+import { AddonConfig, DeviceProfile, ParsedMetadata, StremioStream } from '../types';
+import { DEVICE_PROFILES, FORMAT_DISPLAY_NAMES } from '../constants';
+
+// Device compatibility: which streams the configured client (config.deviceProfile) can't play, judging by the
+// codecs, HDR formats and resolution in the release name. Only what the release name states counts: a release
+// that doesn't name its audio codec is assumed to be playable.
+
+// Release name spellings -> normalized names used in DEVICE_PROFILES
+const VIDEO_CODEC_NAMES: Record<string, string> = {
+  X264: 'H264', H264: 'H264', AVC: 'H264',
+  X265: 'HEVC', H265: 'HEVC', HEVC: 'HEVC',
+  AV1: 'AV1', VP9: 'VP9',
+  XVID: 'MPEG4', DIVX: 'MPEG4',
+};
+
+const displayName = (name: string): string => FORMAT_DISPLAY_NAMES[name] || name;
+
+export const normalizeVideoCodec = (codec?: string): string | undefined =>
+  codec ? VIDEO_CODEC_NAMES[codec.toUpperCase().replace(/[.\s-]/g, '')] : undefined;
+
+// Normalized audio codecs of the release's tracks (parseAudioTracks)
+export const detectAudioCodecs = (meta: ParsedMetadata): string[] =>
+  Array.from(new Set((meta.audioTracks || []).map(track => track.codec).filter((codec): codec is string => !!codec)));
+
+// HDR formats named in the release title (parseHdrFormats); a bare "HDR" counts as HDR10
+export const detectHdrFormats = (meta: ParsedMetadata): string[] =>
+  meta.hdrFormats && meta.hdrFormats.length > 0 ? meta.hdrFormats : meta.isHDR ? ['HDR10'] : [];
+
+// Vertical lines of "2160p", "4K", "1080p"...; undefined if unknown
+export const resolutionLines = (resolution?: string): number | undefined => {
+  const upper = resolution?.toUpperCase();
+  if (!upper) return undefined;
+  if (upper === '4K' || upper === 'UHD') return 2160;
+  const match = upper.match(/^(\d{3,4})[PI]?$/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// What in the stream `profile` can't play; empty if it's (as far as the release name tells) playable.
+export const findIncompatibilities = (stream: StremioStream, profile: DeviceProfile): string[] => {
+  const meta = stream.parsedMeta;
+  if (!meta) return [];
+  const problems: string[] = [];
+  const videoCodec = normalizeVideoCodec(meta.videoCodec);
+  if (videoCodec && !profile.videoCodecs.includes(videoCodec)) problems.push(displayName(videoCodec));
+  const hdrFormats = detectHdrFormats(meta);
+  // Dual-layer releases (e.g. "DV HDR10") fall back to any format the device supports
+  if (hdrFormats.length > 0 && !hdrFormats.some(format => profile.hdrFormats.includes(format))) {
+    problems.push(...hdrFormats.map(displayName));
+  }
+  // Multi-audio releases play as long as one of their tracks is supported
+  const audioCodecs = detectAudioCodecs(meta);
+  if (audioCodecs.length > 0 && !audioCodecs.some(codec => profile.audioCodecs.includes(codec))) {
+    problems.push(...audioCodecs.map(displayName));
+  }
+  const lines = resolutionLines(meta.resolution);
+  if (lines && lines > profile.maxResolution) problems.push(meta.resolution!);
+  return problems;
+};
+
+// notWebReady is about decoding only: browsers scale down what's above the web profile's resolution
+const WEB_PLAYBACK: DeviceProfile = { ...DEVICE_PROFILES.web, maxResolution: Number.POSITIVE_INFINITY };
+
+// Sets `incompatibilities` (for config.deviceProfile) and behaviorHints.notWebReady (for browsers, whatever the
+// profile) on every stream, and drops incompatible streams in 'drop' mode.
+export const applyDeviceProfile = (streams: StremioStream[], config: AddonConfig): StremioStream[] => {
+  const profile = config.deviceProfile ? DEVICE_PROFILES[config.deviceProfile] : undefined;
+  const checked = streams.map(stream => {
+    const notWebReady = findIncompatibilities(stream, WEB_PLAYBACK).length > 0;
+    return {
+      ...stream,
+      incompatibilities: profile ? findIncompatibilities(stream, profile) : undefined,
+      behaviorHints: notWebReady ? { ...stream.behaviorHints, notWebReady } : stream.behaviorHints,
+    };
+  });
+  if (profile && config.deviceCompatibilityMode === 'drop') {
+    return checked.filter(stream => !stream.incompatibilities?.length);
+  }
+  return checked;
+};
+
+export const isCompatibleWithDevice = (stream: StremioStream, config: AddonConfig): boolean =>
+  !config.deviceProfile || findIncompatibilities(stream, DEVICE_PROFILES[config.deviceProfile]).length === 0;
@@ -0,0 +1,91 @@
+// Offline metadata provider backed by a local index built from IMDb's non-commercial datasets
+// (title.basics.tsv / title.akas.tsv). The index is produced by `npm run import-imdb` (see scripts/importImdbDataset.ts).
+//
+// On-disk layout of the index directory:
+//   index.json        -> ImdbIndexInfo (format version, import time, counts)
+//   shards/<nnn>.json -> { [tconst]: ImdbIndexRecord } for every ID whose last three digits are <nnn>
+// Sharding keeps request-time lookups to one small file read without loading the whole dataset.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MediaMetadata, MetadataProvider, StremioItemType } from '../types';
+
+export const IMDB_INDEX_FORMAT_VERSION = 1;
+const MAX_LOADED_SHARDS = 64;
+
+export interface ImdbIndexRecord {
+  type: StremioItemType; // 'movie' or 'series'
+  title: string; // primaryTitle
+  originalTitle?: string; // Only stored when it differs from the primary title
+  startYear?: number;
+  runtimeMinutes?: number;
+  akas?: string[]; // Localized / alternative titles
+}
+
+export interface ImdbIndexInfo {
+  formatVersion: number;
+  importedAt: string;
+  titleCount: number;
+  akaCount: number;
+  sources: string[];
+}
+
+export const getImdbShardName = (imdbId: string): string => {
+  const digits = imdbId.replace(/\D/g, '');
+  return digits.slice(-3).padStart(3, '0');
+};
+
+export const getImdbShardPath = (indexDir: string, shardName: string): string =>
+  path.join(indexDir, 'shards', `${shardName}.json`);
+
+export const createImdbDatasetProvider = (indexDir: string): MetadataProvider => {
+  // Most recently used shards, in insertion order (oldest first)
+  const loadedShards = new Map<string, Promise<Record<string, ImdbIndexRecord>>>();
+  let indexChecked = false;
+
+  const loadShard = (shardName: string): Promise<Record<string, ImdbIndexRecord>> => {
+    const existing = loadedShards.get(shardName);
+    if (existing) {
+      loadedShards.delete(shardName); // Re-insert to mark as recently used
+      loadedShards.set(shardName, existing);
+      return existing;
+    }
+    const loading = fs.readFile(getImdbShardPath(indexDir, shardName), 'utf8')
+      .then(text => JSON.parse(text) as Record<string, ImdbIndexRecord>)
+      .catch(error => {
+        loadedShards.delete(shardName); // Don't keep failures around
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw error;
+      });
+    loadedShards.set(shardName, loading);
+    if (loadedShards.size > MAX_LOADED_SHARDS) {
+      const oldest = loadedShards.keys().next().value;
+      if (oldest !== undefined) loadedShards.delete(oldest);
+    }
+    return loading;
+  };
+
+  return {
+    name: 'imdb-dataset',
+    getMetadata: async (imdbId: string, type: StremioItemType): Promise<MediaMetadata | undefined> => {
+      if (!indexChecked) {
+        const info: ImdbIndexInfo = JSON.parse(await fs.readFile(path.join(indexDir, 'index.json'), 'utf8'));
+        if (info.formatVersion !== IMDB_INDEX_FORMAT_VERSION) {
+          throw new Error(`IMDb index at ${indexDir} has format version ${info.formatVersion}, expected ${IMDB_INDEX_FORMAT_VERSION}. Re-run the import.`);
+        }
+        indexChecked = true;
+      }
+      const record = (await loadShard(getImdbShardName(imdbId)))[imdbId];
+      if (!record) return undefined;
+      return {
+        imdbId,
+        type: record.type || type,
+        title: record.title,
+        originalTitle: record.originalTitle,
+        year: record.startYear,
+        aliases: record.akas || [],
+        runtimeMinutes: record.runtimeMinutes,
+      };
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import { coversEpisode, isSingleEpisode, parseEpisodeFromPath, parseEpisodeRanges, parseReleaseGroup, parseTorrentTitle } from './metadataParser';
+
+// Field-by-field expectations for whole release names are in the parser corpus (src/rules/parserCorpus.json,
+// checked by src/scripts/parserCorpus.test.ts); these cover the helpers the pipeline uses on their own.
+
+describe('parseEpisodeRanges', () => {
+  it('reads single episodes, multi-episode ranges and season ranges', () => {
+    expect(parseEpisodeRanges('Show.S02E05.1080p')).toMatchObject({ seasonRange: { start: 2, end: 2 }, episodeRange: { start: 5, end: 5 } });
+    expect(parseEpisodeRanges('Show.S01E01-E03.1080p')).toMatchObject({ seasonRange: { start: 1, end: 1 }, episodeRange: { start: 1, end: 3 } });
+    expect(parseEpisodeRanges('Show.S01-S05.1080p')).toMatchObject({ seasonRange: { start: 1, end: 5 } });
+    expect(parseEpisodeRanges('Show Season 1-3 1080p')).toMatchObject({ seasonRange: { start: 1, end: 3 } });
+    expect(parseEpisodeRanges('Show.Complete.Series.1080p')).toMatchObject({ isCompleteSeries: true });
+  });
+
+  it('reads anime absolute numbers and batches', () => {
+    expect(parseEpisodeRanges('[SubsPlease] Show - 137 (1080p)')).toMatchObject({ absoluteEpisodeRange: { start: 137, end: 137 } });
+    expect(parseEpisodeRanges('[Group] Show - 01-12 (1080p)')).toMatchObject({ absoluteEpisodeRange: { start: 1, end: 12 } });
+    expect(parseEpisodeRanges('[Group] Show (Batch) [1080p]')).toMatchObject({ isBatch: true });
+  });
+});
+
+describe('coversEpisode', () => {
+  const meta = (title: string) => parseTorrentTitle(title);
+
+  it('matches episodes and season packs covering the target', () => {
+    expect(coversEpisode(meta('Show.S02E05.1080p.WEB'), { season: 2, episode: 5 })).toBe(true);
+    expect(coversEpisode(meta('Show.S02E05.1080p.WEB'), { season: 2, episode: 6 })).toBe(false);
+    expect(coversEpisode(meta('Show.S01E01-E03.1080p.WEB'), { season: 1, episode: 2 })).toBe(true);
+    expect(coversEpisode(meta('Show.S01-S03.1080p.WEB'), { season: 3, episode: 9 })).toBe(true);
+    expect(coversEpisode(meta('Show.S01-S03.1080p.WEB'), { season: 4, episode: 1 })).toBe(false);
+    expect(coversEpisode(meta('Show.Complete.Series.1080p.WEB'), { season: 7, episode: 1 })).toBe(true);
+  });
+
+  it('compares anime absolute numbers with the mapped number, or season 1 without a mapping', () => {
+    const release = meta('[SubsPlease] Show - 137 (1080p)');
+    expect(coversEpisode(release, { season: 5, episode: 12, absoluteEpisode: 137 })).toBe(true);
+    expect(coversEpisode(release, { season: 5, episode: 12 })).toBe(false);
+    expect(coversEpisode(meta('[SubsPlease] Show - 05 (1080p)'), { season: 1, episode: 5 })).toBe(true);
+  });
+
+  it('compares daily show releases by air date', () => {
+    const release = meta('The.Daily.Show.2024.03.14.Guest.Name.1080p.WEB');
+    expect(coversEpisode(release, { season: 29, episode: 40, airDate: '2024-03-14' })).toBe(true);
+    expect(coversEpisode(release, { season: 29, episode: 41, airDate: '2024-03-15' })).toBe(false);
+  });
+
+  it('does not match a dated release without episode numbers when the air date is unknown', () => {
+    expect(coversEpisode(meta('The.Daily.Show.2024.03.14.Guest.Name.1080p.WEB'), { season: 29, episode: 40 })).toBe(false);
+    expect(coversEpisode(meta('The.Daily.Show.S29E40.2024.03.14.1080p.WEB'), { season: 29, episode: 40 })).toBe(true);
+    expect(coversEpisode(meta('The.Daily.Show.S29E40.2024.03.14.1080p.WEB'), { season: 29, episode: 41 })).toBe(false);
+  });
+});
+
+describe('isSingleEpisode', () => {
+  it('tells single episodes from packs', () => {
+    expect(isSingleEpisode(parseTorrentTitle('Show.S01E01.1080p'))).toBe(true);
+    expect(isSingleEpisode(parseTorrentTitle('Show.S01E01-E03.1080p'))).toBe(false);
+    expect(isSingleEpisode(parseTorrentTitle('Show.S01.1080p'))).toBe(false);
+    expect(isSingleEpisode(parseTorrentTitle('[SubsPlease] Show - 137 (1080p)'))).toBe(true);
+    expect(isSingleEpisode(parseTorrentTitle('The.Daily.Show.2024.03.14.1080p.WEB'))).toBe(true);
+    expect(isSingleEpisode(undefined)).toBe(false);
+  });
+});
+
+describe('parseEpisodeFromPath', () => {
+  it('reads the episode from the file name, and the season from the closest directory if needed', () => {
+    expect(parseEpisodeFromPath('Show.S01.1080p/Show.S01E05.1080p.mkv')).toEqual({ season: 1, episode: 5 });
+    expect(parseEpisodeFromPath('Show/Season 2/03 - Title.mkv')).toEqual({ season: 2, episode: 3 });
+    expect(parseEpisodeFromPath('Show/Show 1x05.avi')).toEqual({ season: 1, episode: 5 });
+    expect(parseEpisodeFromPath('[Group] Show - 137 [1080p].mkv')).toEqual({ season: undefined, episode: 137 });
+    expect(parseEpisodeFromPath('Show/Extras/Making Of.mkv')).toBeUndefined();
+  });
+});
+
+describe('parseReleaseGroup', () => {
+  it('reads trailing and leading groups, but not metadata that looks like one', () => {
+    expect(parseReleaseGroup('Movie.2023.1080p.WEB-DL.x264-GRP[rarbg].mkv')).toBe('GRP');
+    expect(parseReleaseGroup('[SubsPlease] Show - 01 (1080p)')).toBe('SubsPlease');
+    expect(parseReleaseGroup('Movie.2023.1080p.BluRay.x264-D-Z0N3')).toBe('D-Z0N3');
+    expect(parseReleaseGroup('Movie.2023.1080p.WEB-DL')).toBeUndefined();
+    expect(parseReleaseGroup('Movie.2023.1080p.BluRay.x264')).toBeUndefined();
+  });
+});
@@ -1,5 +1,31 @@
-import { ParsedMetadata } from '../types'; // Adjusted path
-import { REGEX_PATTERNS, COMMON_TRASH_TERMS, LANGUAGE_MAP } from '../constants'; // Adjusted path
+import { AudioTrack, EpisodeTarget, HdrFormat, NumberRange, ParsedMetadata, ParserPatternName, SubtitleInfo, SubtitleType } from '../types'; // Adjusted path
+import { readFileSync } from 'fs';
+import { REGEX_PATTERNS, COMMON_TRASH_TERMS, QUALITY_RANK_MAP, BUNDLED_PARSER_RULES, LANGUAGE_TOKENS } from '../constants'; // Adjusted path
+import { compileParserRules, mergeParserRules } from '../utils/parserRules';
+import { DUAL_AUDIO, MULTI_AUDIO, findLanguage } from '../utils/languages';
+
+export interface ParserRulesOptions {
+  rulesFile?: string; // JSON ParserRulesOverride; bundled rules only if unset
+}
+
+// Activates the bundled parser rules plus the overrides in `rulesFile`. A malformed file or an invalid regex in it is
+// logged and ignored, so the addon still starts (with the bundled rules).
+export const configureParserRules = (options: ParserRulesOptions) => {
+  let compiled = compileParserRules(BUNDLED_PARSER_RULES, LANGUAGE_TOKENS);
+  if (options.rulesFile) {
+    try {
+      const override = JSON.parse(readFileSync(options.rulesFile, 'utf8'));
+      compiled = compileParserRules(mergeParserRules(BUNDLED_PARSER_RULES, override), LANGUAGE_TOKENS);
+      console.log(`[metadataParser] Loaded parser rule overrides from ${options.rulesFile}.`);
+    } catch (error) {
+      console.warn(`[metadataParser] Ignoring parser rules file ${options.rulesFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  Object.assign(REGEX_PATTERNS, compiled.patterns);
+  COMMON_TRASH_TERMS.splice(0, COMMON_TRASH_TERMS.length, ...compiled.trashTerms);
+  for (const term of Object.keys(QUALITY_RANK_MAP)) delete QUALITY_RANK_MAP[term];
+  Object.assign(QUALITY_RANK_MAP, compiled.qualityRanks);
+};
 
 function parseSize(sizeStr: string): number | undefined {
   // Use a non-global regex for matching a single size string
@@ -18,30 +44,316 @@ function parseSize(sizeStr: string): number | undefined {
   return undefined;
 }
 
-function cleanTitle(title: string, parsedMeta: Partial<ParsedMetadata>, originalSearchTitle?: string): string {
+// Season/episode coverage of a release title, plus the matched notations (so cleanTitle can strip them).
+export const parseEpisodeRanges = (title: string): Pick<ParsedMetadata,
+  'seasonRange' | 'episodeRange' | 'isCompleteSeries' | 'absoluteEpisodeRange' | 'isBatch'
+> & { tokens: string[] } => {
+  const range = (start: string, end?: string): NumberRange => {
+    const from = parseInt(start, 10);
+    const to = end ? parseInt(end, 10) : from;
+    return { start: Math.min(from, to), end: Math.max(from, to) };
+  };
+  const firstMatch = (regex: RegExp) => {
+    regex.lastIndex = 0;
+    return regex.exec(title);
+  };
+
+  // S01E01(-E03) and 1x05(-07) carry both season and episodes
+  const seasonEpisode = firstMatch(REGEX_PATTERNS.SEASON_EPISODE);
+  if (seasonEpisode) {
+    return { seasonRange: range(seasonEpisode[1]), episodeRange: range(seasonEpisode[2], seasonEpisode[3] || seasonEpisode[4]), tokens: [seasonEpisode[0]] };
+  }
+  const crossEpisode = firstMatch(REGEX_PATTERNS.CROSS_EPISODE);
+  if (crossEpisode) {
+    return { seasonRange: range(crossEpisode[1]), episodeRange: range(crossEpisode[2], crossEpisode[3]), tokens: [crossEpisode[0]] };
+  }
+
+  const result: ReturnType<typeof parseEpisodeRanges> = { tokens: [] };
+  const seasonRange = firstMatch(REGEX_PATTERNS.SEASON_RANGE);
+  const season = seasonRange ? undefined : firstMatch(REGEX_PATTERNS.SEASON);
+  if (seasonRange) {
+    result.seasonRange = seasonRange[1] ? range(seasonRange[1], seasonRange[2]) : range(seasonRange[3], seasonRange[4]);
+    result.tokens.push(seasonRange[0]);
+  } else if (season) {
+    result.seasonRange = range(season[1]);
+    result.tokens.push(season[0]);
+  }
+  // Episodes given apart from the season ("Season 2 Episode 5") only make sense for a single season
+  const isSingleSeason = !result.seasonRange || result.seasonRange.start === result.seasonRange.end;
+  const episode = firstMatch(REGEX_PATTERNS.EPISODE);
+  const animeEpisode = episode ? undefined : firstMatch(REGEX_PATTERNS.ABSOLUTE_EPISODE);
+  if (episode && isSingleSeason) {
+    result.episodeRange = range(episode[1], episode[2]);
+    result.tokens.push(episode[0]);
+  } else if (animeEpisode && isSingleSeason) {
+    // "Show S2 - 05" counts within the season; without a season the number is absolute
+    if (result.seasonRange) result.episodeRange = range(animeEpisode[1], animeEpisode[2]);
+    else result.absoluteEpisodeRange = range(animeEpisode[1], animeEpisode[2]);
+    result.tokens.push(animeEpisode[0].trim());
+  }
+  const batch = firstMatch(REGEX_PATTERNS.ANIME_BATCH);
+  if (batch && !result.episodeRange && !result.absoluteEpisodeRange) {
+    result.isBatch = true;
+    result.tokens.push(batch[0]);
+  }
+  const completeSeries = firstMatch(REGEX_PATTERNS.COMPLETE_SERIES);
+  if (completeSeries && !result.seasonRange) {
+    result.isCompleteSeries = true;
+    result.tokens.push(completeSeries[0]);
+  }
+  return result;
+};
+
+// Air date of a daily show release ("Show.2024.03.14.Guest.1080p"), as YYYY-MM-DD, plus the matched text.
+export const parseAirDate = (title: string): { airDate: string; token: string } | undefined => {
+  REGEX_PATTERNS.AIR_DATE.lastIndex = 0;
+  const match = REGEX_PATTERNS.AIR_DATE.exec(title);
+  return match ? { airDate: `${match[1]}-${match[2]}-${match[3]}`, token: match[0] } : undefined;
+};
+
+// Whether a release covers the requested episode. Releases without any season/episode information
+// (e.g. "Complete Series", batches, or badly named packs) are given the benefit of the doubt.
+// Episodes without a season (E05) are assumed to belong to season 1.
+// Absolute numbers (anime) are compared with `target.absoluteEpisode`; without a known mapping they only match season 1.
+// Dated releases (daily shows) are compared by air date. Without the requested episode's air date, a dated release
+// only matches by its season/episode numbers; one without any is a single episode of unknown number, so it doesn't.
+export const coversEpisode = (meta: ParsedMetadata, target: EpisodeTarget): boolean => {
+  const { season, episode } = target;
+  if (meta.airDate) {
+    if (target.airDate) return meta.airDate === target.airDate;
+    if (!meta.seasonRange && !meta.episodeRange && !meta.absoluteEpisodeRange) return false;
+  }
+  if (meta.absoluteEpisodeRange) {
+    const absolute = target.absoluteEpisode ?? (season === 1 ? episode : undefined);
+    return absolute !== undefined && absolute >= meta.absoluteEpisodeRange.start && absolute <= meta.absoluteEpisodeRange.end;
+  }
+  const seasons = meta.seasonRange || (meta.episodeRange ? { start: 1, end: 1 } : undefined);
+  if (seasons && (season < seasons.start || season > seasons.end)) return false;
+  if (meta.episodeRange && (episode < meta.episodeRange.start || episode > meta.episodeRange.end)) return false;
+  return true;
+};
+
+// --- Release attributes: HDR formats, audio tracks, subtitles, edition, remux, bit depth ---
+
+// First matching pattern names the format ("HDR10+" before "HDR10")
+const HDR_FORMAT_NAMES: Array<[RegExp, HdrFormat]> = [
+  [/^HDR10(?:PLUS|\+)$/i, 'HDR10+'],
+  [/^(?:DOLBY[\s.]VISION|DOVI|DV)$/i, 'DV'],
+  [/^HLG$/i, 'HLG'],
+  [/^HDR(?:10)?$/i, 'HDR10'],
+];
+
+// First matching pattern names the codec ("DTS-HD MA" is DTS-HD, not DTS)
+const AUDIO_CODEC_NAMES: Array<[RegExp, string]> = [
+  [/^TRUEHD$/i, 'TRUEHD'],
+  [/^DTS-?(?:HD|X)/i, 'DTS-HD'],
+  [/^DTS/i, 'DTS'],
+  [/^(?:DOLBY[\s.]DIGITAL[\s.]PLUS|DDP|DD\+|E-?AC-?3)$/i, 'EAC3'],
+  [/^(?:DD|AC-?3)$/i, 'AC3'],
+  [/^AAC/i, 'AAC'],
+  [/^MP3$/i, 'MP3'],
+  [/^OPUS$/i, 'OPUS'],
+  [/^FLAC$/i, 'FLAC'],
+  [/^L?PCM$/i, 'PCM'],
+  [/^VORBIS$/i, 'VORBIS'],
+];
+
+const SUBTITLE_TYPE_NAMES: Array<[RegExp, SubtitleType]> = [
+  [/^(?:HC|HARD)/i, 'hardcoded'],
+  [/^KORSUB$/i, 'hardcoded'], // Scene convention: KORSUB releases have burned-in Korean subs
+  [/^(?:MULTI|MSUB)/i, 'multi'],
+  [/^(?:SOFT|E[\s.-]?SUBS?$)/i, 'soft'],
+];
+
+// Tags that name the subtitle language without a language code prefix
+const SUBTITLE_LANGUAGE_NAMES: Array<[RegExp, string]> = [
+  [/^(?:VOSTFR|SUBFRENCH)$/i, 'fr'],
+  [/^E[\s.-]?SUBS?$/i, 'en'], // "ESub", common on Indian releases
+  [/^KORSUB$/i, 'ko'],
+];
+
+const EDITION_NAMES: Array<[RegExp, string]> = [
+  [/^extended/i, 'Extended'],
+  [/^director/i, "Director's Cut"],
+  [/^imax/i, 'IMAX'],
+  [/^theatrical/i, 'Theatrical'],
+  [/^unrated/i, 'Unrated'],
+  [/^uncut/i, 'Uncut'],
+  [/^remastered/i, 'Remastered'],
+  [/^criterion/i, 'Criterion'],
+  [/^special/i, 'Special Edition'],
+  [/^ultimate/i, 'Ultimate Edition'],
+  [/^(?:the[\s.])?final/i, 'Final Cut'],
+  [/^anniversary/i, 'Anniversary Edition'],
+  [/^collector/i, "Collector's Edition"],
+];
+
+const allMatches = (regex: RegExp, title: string): RegExpExecArray[] => {
+  regex.lastIndex = 0;
+  const matches = Array.from(title.matchAll(regex));
+  regex.lastIndex = 0;
+  return matches;
+};
+
+const nameFor = <T extends string>(names: Array<[RegExp, T]>, token: string): T | undefined =>
+  names.find(([pattern]) => pattern.test(token))?.[1];
+
+export const parseHdrFormats = (title: string): HdrFormat[] =>
+  Array.from(new Set(allMatches(REGEX_PATTERNS.HDR, title)
+    .map(match => nameFor(HDR_FORMAT_NAMES, match[1]))
+    .filter((format): format is HdrFormat => !!format)));
+
+// Audio tracks in title order. A bare channel layout ("5.1") only counts when no codec is named at all.
+export const parseAudioTracks = (title: string): AudioTrack[] => {
+  const tracks: AudioTrack[] = [];
+  for (const match of allMatches(REGEX_PATTERNS.AUDIO_TRACK, title)) {
+    const track: AudioTrack = { codec: nameFor(AUDIO_CODEC_NAMES, match[1]) };
+    if (match[2]) track.channels = match[2];
+    if (match[3]) track.atmos = true;
+    if (!tracks.some(t => t.codec === track.codec && t.channels === track.channels)) tracks.push(track);
+  }
+  if (tracks.length === 0) {
+    const channels = allMatches(REGEX_PATTERNS.AUDIO_CHANNELS, title)[0]?.[1];
+    if (channels) tracks.push({ channels });
+  }
+  // "Atmos" on its own ("Atmos.TrueHD.7.1") belongs to the first TrueHD/DD+ track
+  if (/\bAtmos\b/i.test(title) && !tracks.some(t => t.atmos)) {
+    const carrier = tracks.find(t => t.codec === 'TRUEHD' || t.codec === 'EAC3');
+    if (carrier) carrier.atmos = true;
+  }
+  return tracks;
+};
+
+// Subtitles named in the title, plus the matched tags (cleanTitle removes them, audio language detection skips them).
+// Several tags combine: hardcoded wins (it can't be turned off), then multi (also for two or more languages), then soft.
+export const parseSubtitles = (title: string): { subtitles?: SubtitleInfo; tokens: string[] } => {
+  const languages: string[] = [];
+  const types = new Set<SubtitleType>();
+  const tokens: string[] = [];
+  for (const match of allMatches(REGEX_PATTERNS.SUBTITLES, title)) {
+    let token = match[1];
+    const type = nameFor(SUBTITLE_TYPE_NAMES, token);
+    let language = nameFor(SUBTITLE_LANGUAGE_NAMES, token);
+    if (!type && !language) {
+      const [, prefix, tag] = token.match(/^(.*?)[\s.-]?(SUB(?:S|BED|TITLES?)?)$/i) || [];
+      language = prefix ? findLanguage(prefix)?.code : undefined;
+      if (prefix && !language) {
+        // Not a language code: "WEB.Subbed" is a bare tag after the source, "The Sub" is part of a title
+        if (!/^SUB(?:S|BED)$/i.test(tag)) continue;
+        token = tag;
+        language = undefined;
+      }
+    }
+    if (type) types.add(type);
+    if (language && !languages.includes(language)) languages.push(language);
+    tokens.push(token);
+  }
+  if (tokens.length === 0) return { tokens };
+  const type: SubtitleType | undefined = types.has('hardcoded') ? 'hardcoded'
+    : types.has('multi') || languages.length > 1 ? 'multi'
+    : types.has('soft') ? 'soft' : undefined;
+  return { subtitles: type ? { languages, type } : { languages }, tokens };
+};
+
+// Edition, remux flag and bit depth, plus the attribute tokens cleanTitle should remove ("IMAX" isn't part of the title).
+const parseReleaseAttributes = (title: string): Pick<ParsedMetadata, 'edition' | 'isRemux' | 'bitDepth'> & { tokens: string[] } => {
+  const tokens: string[] = [];
+  const editions: string[] = [];
+  for (const match of allMatches(REGEX_PATTERNS.EDITION, title)) {
+    const name = nameFor(EDITION_NAMES, match[1]);
+    if (name && !editions.includes(name)) editions.push(name);
+    tokens.push(match[1]);
+  }
+  const remux = allMatches(REGEX_PATTERNS.REMUX, title)[0];
+  if (remux) tokens.push(remux[0]);
+  const bitDepthMatch = allMatches(REGEX_PATTERNS.BIT_DEPTH, title)[0];
+  if (bitDepthMatch) tokens.push(bitDepthMatch[0]);
+  // Audio and HDR tokens as well: cleanTitle on its own removes only the first HDR tag and no audio at all
+  tokens.push(
+    ...allMatches(REGEX_PATTERNS.AUDIO_TRACK, title).map(match => match[0]),
+    ...allMatches(REGEX_PATTERNS.AUDIO_CHANNELS, title).map(match => match[1]),
+    ...allMatches(REGEX_PATTERNS.HDR, title).map(match => match[1]),
+    ...(/\bAtmos\b/i.test(title) ? ['Atmos'] : []),
+    // Every codec tag, not only the videoCodec cleanTitle removes: "[HEVC x265 10bit]"
+    ...allMatches(REGEX_PATTERNS.VIDEO_CODEC, title).map(match => match[1]),
+  );
+  return {
+    edition: editions.length > 0 ? editions.join(', ') : undefined,
+    isRemux: remux ? true : undefined,
+    bitDepth: bitDepthMatch ? parseInt(bitDepthMatch[1] || bitDepthMatch[2], 10) : undefined,
+    tokens,
+  };
+};
+
+// Tokens that look like "<token>-<group>" but are metadata: "WEB-DL", "Blu-Ray", "DTS-HD", "S01E01-E03"...
+const METADATA_PATTERN_NAMES: ParserPatternName[] = [
+  'RESOLUTION', 'QUALITY_SOURCE', 'VIDEO_CODEC', 'AUDIO_TRACK', 'HDR', 'BIT_DEPTH', 'LANGUAGES', 'SUBTITLES',
+  'EDITION', 'SEASON_EPISODE', 'SEASON_RANGE', 'SEASON', 'EPISODE',
+];
+
+const isMetadataToken = (token: string): boolean =>
+  /^\d+$/.test(token) ||
+  METADATA_PATTERN_NAMES.some(name => allMatches(REGEX_PATTERNS[name], token).some(match => match[0].length === token.length));
+
+// Release group: "[SubsPlease] Show - 01", "Movie.2023.1080p.WEB-DL.x264-GRP[rarbg].mkv", "...x264-D-Z0N3".
+// Undefined when the title doesn't end in a group (a "-DL" of "WEB-DL" or a bare "x264" is no group).
+export const parseReleaseGroup = (title: string): string | undefined => {
+  REGEX_PATTERNS.RELEASE_GROUP.lastIndex = 0;
+  const match = REGEX_PATTERNS.RELEASE_GROUP.exec(title.trim());
+  REGEX_PATTERNS.RELEASE_GROUP.lastIndex = 0;
+  if (!match) return undefined;
+  if (match[1]) return match[1].trim();
+  const [before, group] = [match[2] || '', match[3]];
+  const [first, second] = group.split('-');
+  // "WEB-DL-GRP": the hyphenated part is metadata, the group is what follows it
+  if (second && isMetadataToken(`${before}-${first}`)) return isMetadataToken(second) ? undefined : second;
+  if (isMetadataToken(group) || (before && isMetadataToken(`${before}-${group}`))) return undefined;
+  return group;
+};
+
+// A release of exactly one episode, as opposed to a pack of several episodes or seasons.
+export const isSingleEpisode = (meta?: ParsedMetadata): boolean =>
+  (!!meta?.airDate && !meta.seasonRange && !meta.episodeRange) ||
+  (!!meta?.absoluteEpisodeRange && meta.absoluteEpisodeRange.start === meta.absoluteEpisodeRange.end) ||
+  !!meta?.episodeRange && meta.episodeRange.start === meta.episodeRange.end &&
+  (!meta.seasonRange || meta.seasonRange.start === meta.seasonRange.end);
+
+// Where the title ends and the tags begin: the first of the (last) year, episode, resolution and source tags.
+// Infinity when there is none, as in a bare "Spanish.Princess".
+const titleBoundary = (title: string, episodeTokens: string[]): number => {
+  const positions = [
+    allMatches(REGEX_PATTERNS.YEAR, title).pop()?.index,
+    ...episodeTokens.map(token => title.indexOf(token)),
+    allMatches(REGEX_PATTERNS.RESOLUTION, title)[0]?.index,
+    allMatches(REGEX_PATTERNS.QUALITY_SOURCE, title)[0]?.index,
+  ].filter((index): index is number => index !== undefined && index >= 0);
+  return positions.length > 0 ? Math.min(...positions) : Infinity;
+};
+
+// `useFallback`: replace an empty result (or just the year) with the search title (or the raw title). Fine for display,
+// but not for telling whether the release is of the searched title.
+function cleanTitle(title: string, parsedMeta: Partial<ParsedMetadata>, originalSearchTitle?: string, extraTerms: string[] = [], useFallback: boolean = true): string {
     let cleaned = title;
 
     // Terms to remove based on already parsed metadata
     const toRemoveExact = [
+        ...extraTerms, // e.g. matched S01E01, Season 1-3, IMAX; first, as they may contain other terms ("Complete Series")
         parsedMeta.year?.toString(),
         parsedMeta.resolution,
         parsedMeta.qualitySource,
         parsedMeta.videoCodec,
         // audioCodec is complex; avoid removing generic parts like "5.1" unless very specific
         // Array.isArray(parsedMeta.audioCodec) ? parsedMeta.audioCodec.join(' ') : parsedMeta.audioCodec,
-        parsedMeta.isHDR ? (parsedMeta.originalTitle.match(REGEX_PATTERNS.HDR)?.[0] || 'HDR') : undefined, // Remove matched HDR string
+        parsedMeta.isHDR ? (parsedMeta.originalTitle?.match(REGEX_PATTERNS.HDR)?.[0] || 'HDR') : undefined, // Remove matched HDR string
         parsedMeta.is3D ? '3D' : undefined,
-        parsedMeta.episodeInfo, // S01E01
         parsedMeta.releaseGroup,
-        // Remove parsed languages only if they are short codes and not part of a common word
-        ...(parsedMeta.languages?.filter(lang => lang.length <= 3 || LANGUAGE_MAP[lang.toUpperCase()]) || [])
     ].filter(Boolean) as string[];
 
     for (const term of toRemoveExact) {
         // Escape special characters for regex and ensure it matches whole words/tokens
         const escapedTerm = term.replace(/([.+*?^$[\]\\(){}|-])/g, "\\$1");
-        // Regex to match term if surrounded by common separators, string boundaries, or inside brackets.
-        const termRegex = new RegExp(`(?:^|[.\\s_\\-\\[])${escapedTerm}(?:[.\\s_\\-\\]]|$)`, 'ig');
+        // Regex to match term if surrounded by common separators, string boundaries, or brackets/parentheses (also "GRP" of "GRP[eztv]").
+        const termRegex = new RegExp(`(?:^|[.\\s_\\-\\[(])${escapedTerm}(?:[.\\s_\\-\\])]|$|(?=\\[))`, 'ig');
         cleaned = cleaned.replace(termRegex, ' ');
     }
     
@@ -53,9 +365,11 @@ function cleanTitle(title: string, parsedMeta: Partial<ParsedMetadata>, original
 
     // Final cleanup: replace multiple dots/spaces/underscores with a single space, then trim.
     cleaned = cleaned.replace(/[._-]+/g, ' ').replace(/\s+/g, ' ').trim();
+    // Brackets left open by a removed tag: "Attack on Titan (" of "Attack on Titan (Batch)"
+    cleaned = cleaned.replace(/\s*[([{]$/, '').replace(/^[)\]}]\s*/, '');
     
-    // Fallback if cleaning results in a very short or year-like title
-    if ((cleaned.length < 5 && title.length > 10) || /^\d{4}$/.test(cleaned)) {
+    // Fallback if cleaning leaves nothing or only the year. Short and numeric titles are real ("It", "Up", "1917").
+    if (useFallback && (!cleaned || cleaned === parsedMeta.year?.toString())) {
         let fallbackCleaned = originalSearchTitle || title; // Start with original search or full title
         // Simpler cleaning for fallback: remove only year and release group from the original title/search title
         if(parsedMeta.year) fallbackCleaned = fallbackCleaned.replace(new RegExp(`[.\\s_-]?${parsedMeta.year}[.\\s_-]?`, 'ig'), ' ');
@@ -118,11 +432,19 @@ export const parseTorrentTitle = (
   if (torrentYearFromBitmagnet) {
       metadata.year = torrentYearFromBitmagnet;
   } else {
-      extractFirstMatch(REGEX_PATTERNS.YEAR, 'year', (val) => parseInt(val, 10));
+      // The last year-like number: a title may start with one ("1917.2019", "2001.A.Space.Odyssey.1968")
+      const yearMatch = allMatches(REGEX_PATTERNS.YEAR, workTitle).pop();
+      if (yearMatch) metadata.year = parseInt(yearMatch[1], 10);
   }
 
   // 2. Season/Episode Info
-  extractFirstMatch(REGEX_PATTERNS.SEASON_EPISODE, 'episodeInfo', (val) => val.toUpperCase());
+  const { tokens: episodeTokens, ...episodeRanges } = parseEpisodeRanges(workTitle);
+  Object.assign(metadata, episodeRanges);
+  const airDate = parseAirDate(workTitle);
+  if (airDate) {
+    metadata.airDate = airDate.airDate;
+    episodeTokens.push(airDate.token);
+  }
 
   // 3. Resolution
   extractFirstMatch(REGEX_PATTERNS.RESOLUTION, 'resolution');
@@ -146,34 +468,40 @@ export const parseTorrentTitle = (
   REGEX_PATTERNS.THREE_D.lastIndex = 0;
   if (REGEX_PATTERNS.THREE_D.test(workTitle)) metadata.is3D = true;
 
-  // 8. Languages
-  let foundLanguages: string[] = [];
-  let langMatch;
-  REGEX_PATTERNS.LANGUAGES.lastIndex = 0;
-  while((langMatch = REGEX_PATTERNS.LANGUAGES.exec(workTitle)) !== null) {
-    const langKeyPart = langMatch[1] || langMatch[0]; 
-    const langKey = langKeyPart.toUpperCase().replace(/[\s.]AUDIO/, '').replace(/SUB$/, '').trim(); // Clean "DUAL AUDIO" to "DUAL", "ENGSUB" to "ENG"
-    
-    if (LANGUAGE_MAP[langKey]) {
-        foundLanguages.push(LANGUAGE_MAP[langKey]);
-    } else if (langKey.includes('+') || langKey.includes(',')) { // Handle "ENG+TAM", "ENG,TAM"
-        const subLangs = langKey.split(/[+,]/).map(sl => sl.trim());
-        subLangs.forEach(sl => {
-            if(LANGUAGE_MAP[sl]) foundLanguages.push(LANGUAGE_MAP[sl]);
-            else if (sl.length >= 2 && sl.length <= 7) foundLanguages.push(sl); // Store short unknown codes
-        });
-    } else if (langKey.length >= 2 && langKey.length <= 7) { // Store other short codes if not generic like "AUDIO"
-        foundLanguages.push(langKey);
-    }
-  }
-  if (foundLanguages.length > 0) {
-    // Prioritize known mapped languages, then unique codes.
-    metadata.languages = Array.from(new Set(foundLanguages.filter(l => l.length > 1 && !l.includes("AUDIO"))));
-  }
+  // 7b. Structured attributes: HDR formats, audio tracks, edition, remux, bit depth
+  const hdrFormats = parseHdrFormats(workTitle);
+  if (hdrFormats.length > 0) metadata.hdrFormats = hdrFormats;
+  const audioTracks = parseAudioTracks(workTitle);
+  if (audioTracks.length > 0) metadata.audioTracks = audioTracks;
+  const { tokens: attributeTokens, edition, isRemux, bitDepth } = parseReleaseAttributes(workTitle);
+  if (edition) metadata.edition = edition;
+  if (isRemux) metadata.isRemux = isRemux;
+  if (bitDepth) metadata.bitDepth = bitDepth;
 
+  // 8. Languages: subtitles first, so that the "ENG" of "ENG.SUBS" isn't taken for the audio language
+  const { subtitles, tokens: subtitleTokens } = parseSubtitles(workTitle);
+  if (subtitles) metadata.subtitles = subtitles;
+  // Subtitle tags are blanked out with as many spaces, so that match positions still index `title`
+  const audioLanguageTitle = subtitleTokens.reduce((remaining, token) => remaining.replace(token, ' '.repeat(token.length)), workTitle);
+  const titleEnd = titleBoundary(workTitle, episodeTokens);
+  const foundLanguages: string[] = [];
+  let untaggedTitle = title; // The title without its language tags
+  for (const match of allMatches(REGEX_PATTERNS.LANGUAGES, audioLanguageTitle)) {
+    const token = match[1];
+    // Language words before the title boundary are part of the title: "English.Teacher.S01E01", "The.Italian.Job.2003"
+    if (match.index === undefined || match.index < titleEnd) continue;
+    // Two-letter codes only as upper-case tags ("PL"): the "It" of "Show.S01E01.It.Begins" names no language
+    if (token.length <= 2 && token !== token.toUpperCase()) continue;
+    const code = /^MULTI/i.test(token) ? MULTI_AUDIO : /^DUAL/i.test(token) ? DUAL_AUDIO : findLanguage(token)?.code;
+    if (code && !foundLanguages.includes(code)) foundLanguages.push(code);
+    // Removed by position, not by name: "Turkish.Series.S01E01.TURKISH" keeps the first "Turkish"
+    untaggedTitle = untaggedTitle.slice(0, match.index) + ' '.repeat(token.length) + untaggedTitle.slice(match.index + token.length);
+  }
+  if (foundLanguages.length > 0) metadata.languages = foundLanguages;
 
   // 9. Release Group (often at the end)
-  extractFirstMatch(REGEX_PATTERNS.RELEASE_GROUP, 'releaseGroup', (val) => val.startsWith('-') ? val.substring(1) : val);
+  const releaseGroup = parseReleaseGroup(title);
+  if (releaseGroup) metadata.releaseGroup = releaseGroup;
 
   // 10. Size (if present in title, less common than from Bitmagnet direct data)
   REGEX_PATTERNS.SIZE.lastIndex = 0; 
@@ -184,7 +512,11 @@ export const parseTorrentTitle = (
   }
   
   // 11. Cleaned Title (after all other metadata is extracted)
-  metadata.cleanedTitle = cleanTitle(title, metadata, originalSearchTitle);
+  metadata.cleanedTitle = cleanTitle(untaggedTitle, metadata, originalSearchTitle, [...episodeTokens, ...attributeTokens, ...subtitleTokens]);
+  // Only the part before the S/E or episode token names the series: "Friends.S01E01.The.One.Where..." -> "Friends"
+  const episodeStart = Math.min(...episodeTokens.map(token => title.indexOf(token)).filter(index => index > 0));
+  metadata.matchTitle = cleanTitle(Number.isFinite(episodeStart) ? untaggedTitle.slice(0, episodeStart) : untaggedTitle, metadata, undefined,
+    [...attributeTokens, ...subtitleTokens], false);
 
   // Final check for year if still missing and originalSearchTitle has one
   if (!metadata.year && originalSearchTitle) {
@@ -197,3 +529,32 @@ export const parseTorrentTitle = (
 
   return metadata;
 };
+
+// Season/episode of a single file inside a torrent, from its path (e.g. "Show.S01.1080p/Show.S01E05.mkv",
+// "Show/Season 2/03 - Title.mkv", "Show 1x05.avi", "[Group] Show - 137 [1080p].mkv"). The file name wins over
+// directory names. Returns undefined when no episode number can be found; season is undefined when only the
+// episode is known (which, for anime, is usually an absolute number).
+export const parseEpisodeFromPath = (path: string): { season?: number; episode: number } | undefined => {
+  const segments = path.split(/[\\/]/).filter(Boolean);
+  const fileName = (segments.pop() || '').replace(/\.[a-z0-9]{2,4}$/i, '');
+
+  const seasonEpisode = fileName.match(/[Ss](\d{1,3})[\s._-]*[Ee](\d{1,4})/) || fileName.match(/(?:^|[^0-9a-z])(\d{1,2})x(\d{2,3})(?![0-9a-z])/i);
+  if (seasonEpisode) {
+    return { season: parseInt(seasonEpisode[1], 10), episode: parseInt(seasonEpisode[2], 10) };
+  }
+
+  // Episode alone in the file name ("E05", "Episode 5", "05 - Title"), season from the closest directory
+  const episodeOnly = fileName.match(/(?:^|[^a-z])(?:E|Ep|Episode)[\s._-]*(\d{1,4})(?!\d)/i) ||
+    fileName.match(/\s-\s(\d{1,4})(?:v\d)?(?=\s*(?:[\[(]|END\b|$))/i) || fileName.match(/^(\d{1,3})(?:[\s._-]|$)/);
+  if (!episodeOnly) return undefined;
+
+  let season: number | undefined;
+  for (const directory of segments.reverse()) {
+    const seasonMatch = directory.match(/(?:Season|Series|Saison|Staffel|Temporada)[\s._-]*(\d{1,3})/i) || directory.match(/(?:^|[^a-z0-9])[Ss](\d{1,3})(?![0-9Ee])/);
+    if (seasonMatch) {
+      season = parseInt(seasonMatch[1], 10);
+      break;
+    }
+  }
+  return { season, episode: parseInt(episodeOnly[1], 10) };
+};
@@ -0,0 +1,236 @@
+import {
+  EpisodeMetadata,
+  MediaMetadata,
+  MetadataProvider,
+  MetadataProviderConfig,
+  StremioItemType,
+} from '../types';
+import { standardizeYear } from '../utils/standardization';
+import { createImdbDatasetProvider } from './imdbDatasetProvider';
+
+export const DEFAULT_CINEMETA_BASE_URL = 'https://v3-cinemeta.strem.io';
+export const DEFAULT_TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+const DEFAULT_METADATA_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const NEGATIVE_CACHE_TTL = 60 * 60 * 1000; // Unknown IDs are retried after 1 hour
+const MAX_CACHE_ENTRIES = 5000;
+const REQUEST_TIMEOUT = 10000; // 10s per metadata API call
+
+const fetchJson = async (url: string, headers: Record<string, string> = {}): Promise<any | undefined> => {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json', ...headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  if (response.status === 404) return undefined;
+  if (!response.ok) {
+    throw new Error(`Metadata request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// "136 min" / "1h 30min" / 136 -> minutes
+const parseRuntime = (runtime: unknown): number | undefined => {
+  if (typeof runtime === 'number') return runtime > 0 ? runtime : undefined;
+  if (typeof runtime !== 'string') return undefined;
+  const hours = runtime.match(/(\d+)\s*h/i);
+  const minutes = runtime.match(/(\d+)\s*m/i);
+  const total = (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return total > 0 ? total : undefined;
+};
+
+// "2023-10-26T00:00:00.000Z" -> "2023-10-26"
+const toAirDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : undefined;
+};
+
+const uniqueAliases = (aliases: Array<string | undefined>, ...exclude: Array<string | undefined>): string[] => {
+  const excluded = new Set(exclude.filter(Boolean).map(t => (t as string).toLowerCase()));
+  const seen = new Set<string>();
+  return aliases.filter((alias): alias is string => {
+    if (!alias) return false;
+    const key = alias.toLowerCase();
+    if (excluded.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// --- Cinemeta (Stremio's public metadata addon, or anything speaking the same /meta protocol) ---
+
+export const createCinemetaProvider = (baseUrl: string = DEFAULT_CINEMETA_BASE_URL): MetadataProvider => ({
+  name: 'cinemeta',
+  getMetadata: async (imdbId: string, type: StremioItemType) => {
+    const body = await fetchJson(`${baseUrl.replace(/\/+$/, '')}/meta/${type}/${encodeURIComponent(imdbId)}.json`);
+    const meta = body?.meta;
+    if (!meta || !meta.name) return undefined;
+
+    const episodes: EpisodeMetadata[] | undefined = Array.isArray(meta.videos)
+      ? meta.videos
+          .filter((v: any) => Number.isInteger(v.season) && Number.isInteger(v.episode ?? v.number))
+          .map((v: any) => ({
+            season: v.season,
+            episode: v.episode ?? v.number,
+            title: v.name || v.title || undefined,
+            airDate: toAirDate(v.released || v.firstAired),
+          }))
+      : undefined;
+
+    return {
+      imdbId,
+      type,
+      title: meta.name,
+      year: standardizeYear(meta.year ?? meta.releaseInfo),
+      aliases: [], // Cinemeta doesn't expose alternative titles
+      runtimeMinutes: parseRuntime(meta.runtime),
+      episodes: type === 'series' ? episodes : undefined,
+    };
+  },
+});
+
+// --- TMDB ---
+
+const TMDB_APPEND_LIMIT = 20; // TMDB allows at most 20 items in append_to_response
+
+export const createTmdbProvider = (apiKey: string, baseUrl: string = DEFAULT_TMDB_BASE_URL): MetadataProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  // v4 read access tokens are JWTs and go in the Authorization header; v3 keys go in the query string.
+  const isBearerToken = apiKey.split('.').length === 3;
+  const headers: Record<string, string> = isBearerToken ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  const tmdbUrl = (path: string, params: Record<string, string> = {}): string => {
+    const query = new URLSearchParams(params);
+    if (!isBearerToken) query.set('api_key', apiKey);
+    return `${root}${path}?${query.toString()}`;
+  };
+
+  const fetchSeasonEpisodes = async (tvId: number, seasonNumbers: number[]): Promise<EpisodeMetadata[]> => {
+    const episodes: EpisodeMetadata[] = [];
+    for (let i = 0; i < seasonNumbers.length; i += TMDB_APPEND_LIMIT) {
+      const chunk = seasonNumbers.slice(i, i + TMDB_APPEND_LIMIT);
+      const body = await fetchJson(tmdbUrl(`/tv/${tvId}`, { append_to_response: chunk.map(n => `season/${n}`).join(',') }), headers);
+      for (const seasonNumber of chunk) {
+        for (const ep of body?.[`season/${seasonNumber}`]?.episodes || []) {
+          episodes.push({
+            season: ep.season_number ?? seasonNumber,
+            episode: ep.episode_number,
+            title: ep.name || undefined,
+            airDate: toAirDate(ep.air_date),
+          });
+        }
+      }
+    }
+    return episodes;
+  };
+
+  return {
+    name: 'tmdb',
+    getMetadata: async (imdbId: string, type: StremioItemType) => {
+      const found = await fetchJson(tmdbUrl(`/find/${encodeURIComponent(imdbId)}`, { external_source: 'imdb_id' }), headers);
+      if (type === 'movie') {
+        const tmdbId = found?.movie_results?.[0]?.id;
+        if (!tmdbId) return undefined;
+        const movie = await fetchJson(tmdbUrl(`/movie/${tmdbId}`, { append_to_response: 'alternative_titles' }), headers);
+        if (!movie) return undefined;
+        return {
+          imdbId,
+          type,
+          title: movie.title,
+          originalTitle: movie.original_title !== movie.title ? movie.original_title : undefined,
+          year: standardizeYear(movie.release_date),
+          aliases: uniqueAliases((movie.alternative_titles?.titles || []).map((t: any) => t.title), movie.title, movie.original_title),
+          runtimeMinutes: parseRuntime(movie.runtime),
+        };
+      }
+
+      const tvId = found?.tv_results?.[0]?.id;
+      if (!tvId) return undefined;
+      const show = await fetchJson(tmdbUrl(`/tv/${tvId}`, { append_to_response: 'alternative_titles' }), headers);
+      if (!show) return undefined;
+      const seasonNumbers: number[] = (show.seasons || []).map((s: any) => s.season_number).filter((n: unknown) => Number.isInteger(n));
+      return {
+        imdbId,
+        type,
+        title: show.name,
+        originalTitle: show.original_name !== show.name ? show.original_name : undefined,
+        year: standardizeYear(show.first_air_date),
+        aliases: uniqueAliases((show.alternative_titles?.results || []).map((t: any) => t.title), show.name, show.original_name),
+        runtimeMinutes: parseRuntime(show.episode_run_time?.[0]),
+        episodes: await fetchSeasonEpisodes(tvId, seasonNumbers),
+      };
+    },
+  };
+};
+
+// --- Provider selection + cache ---
+
+const providers = new Map<string, MetadataProvider>();
+const metadataCache = new Map<string, { value: MediaMetadata | undefined; expiresAt: number }>();
+const inFlight = new Map<string, Promise<MediaMetadata | undefined>>();
+
+const getProvider = (config: MetadataProviderConfig): MetadataProvider | undefined => {
+  const key = `${config.provider}|${config.baseUrl || ''}|${config.apiKey || ''}|${config.indexDir || ''}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    if (config.provider === 'cinemeta') {
+      provider = createCinemetaProvider(config.baseUrl || DEFAULT_CINEMETA_BASE_URL);
+    } else if (config.provider === 'tmdb') {
+      if (!config.apiKey) {
+        console.warn("[metadataService] TMDB metadata provider selected but no API key is configured.");
+        return undefined;
+      }
+      provider = createTmdbProvider(config.apiKey, config.baseUrl || DEFAULT_TMDB_BASE_URL);
+    } else if (config.provider === 'imdb-dataset') {
+      if (!config.indexDir) {
+        console.warn("[metadataService] imdb-dataset metadata provider selected but no index directory is configured.");
+        return undefined;
+      }
+      provider = createImdbDatasetProvider(config.indexDir);
+    } else {
+      return undefined;
+    }
+    providers.set(key, provider);
+  }
+  return provider;
+};
+
+// Resolves metadata for an IMDB ID through the configured provider. Never throws: failures resolve to undefined
+// so that stream requests can still fall back to ID-based search.
+export const resolveMediaMetadata = async (
+  imdbId: string,
+  type: StremioItemType,
+  config?: MetadataProviderConfig
+): Promise<MediaMetadata | undefined> => {
+  if (!config || config.provider === 'none') return undefined;
+  const provider = getProvider(config);
+  if (!provider) return undefined;
+
+  const cacheKey = `${provider.name}|${type}|${imdbId}`;
+  const cached = metadataCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const pending = inFlight.get(cacheKey);
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      const value = await provider.getMetadata(imdbId, type);
+      const ttl = value ? (config.cacheTtlMs ?? DEFAULT_METADATA_CACHE_TTL) : NEGATIVE_CACHE_TTL;
+      if (metadataCache.size >= MAX_CACHE_ENTRIES) {
+        // Map iteration order is insertion order, so the first key is the oldest entry
+        const oldestKey = metadataCache.keys().next().value;
+        if (oldestKey !== undefined) metadataCache.delete(oldestKey);
+      }
+      metadataCache.set(cacheKey, { value, expiresAt: Date.now() + ttl });
+      console.log(`[metadataService] ${provider.name} resolved ${imdbId} -> ${value ? `'${value.title}' (${value.year ?? 'unknown year'})` : 'not found'}`);
+      return value;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`[metadataService] ${provider.name} lookup failed for ${imdbId}: ${errorMessage}`);
+      return undefined; // Not cached, so the next request retries
+    } finally {
+      inFlight.delete(cacheKey);
+    }
+  })();
+  inFlight.set(cacheKey, request);
+  return request;
+};
@@ -0,0 +1,67 @@
+import { AddonConfig, SortPreference, StremioStream } from '../types';
+import { parseTorrentTitle } from './metadataParser';
+import { applyReleaseGroupRules, canonicalReleaseGroup, isAllowedReleaseGroup, isPreferredReleaseGroup } from './releaseGroups';
+
+const baseConfig: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: [],
+  filterLowQuality: false,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+const withRules = (releaseGroups: AddonConfig['releaseGroups']): AddonConfig => ({ ...baseConfig, releaseGroups });
+
+const stream = (title: string): StremioStream => ({ infoHash: title, parsedMeta: parseTorrentTitle(title) });
+
+describe('release group rules', () => {
+  it('resolves aliases to their canonical group, case-insensitively', () => {
+    const config = withRules({ aliases: { FLUX: ['flux-team', 'FLX'] } });
+    expect(canonicalReleaseGroup('Flux-Team', config)).toBe('FLUX');
+    expect(canonicalReleaseGroup('flux', config)).toBe('FLUX');
+    expect(canonicalReleaseGroup('NTb', config)).toBe('NTb');
+    expect(canonicalReleaseGroup('NTb', baseConfig)).toBe('NTb');
+  });
+
+  it('prefers groups by any of their names', () => {
+    const config = withRules({ prefer: ['flux'], aliases: { FLUX: ['FLX'] } });
+    expect(isPreferredReleaseGroup('FLX', config)).toBe(true);
+    expect(isPreferredReleaseGroup('NTb', config)).toBe(false);
+    expect(isPreferredReleaseGroup(undefined, config)).toBe(false);
+  });
+
+  it('blocks listed groups and, with an allow list, everything not on it or preferred', () => {
+    const blocking = withRules({ block: ['YIFY'], aliases: { YIFY: ['YTS'] } });
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.BluRay.x264-YTS'), blocking)).toBe(false);
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.BluRay.x264'), blocking)).toBe(true);
+
+    const allowing = withRules({ allow: ['NTb'], prefer: ['FLUX'] });
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.WEB-DL.x264-NTb'), allowing)).toBe(true);
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.WEB-DL.x264-FLUX'), allowing)).toBe(true);
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.WEB-DL.x264-GRP'), allowing)).toBe(false);
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.WEB-DL.x264'), allowing)).toBe(false);
+  });
+
+  it('lets everything through without rules', () => {
+    expect(isAllowedReleaseGroup(stream('Movie.2020.1080p.WEB-DL.x264-GRP'), baseConfig)).toBe(true);
+  });
+});
+
+describe('applyReleaseGroupRules', () => {
+  it('drops ruled-out streams and labels the others with the canonical group', () => {
+    const config = withRules({ prefer: ['FLUX'], block: ['GRP'], aliases: { FLUX: ['flx'] } });
+    const result = applyReleaseGroupRules([
+      stream('Movie.2020.1080p.WEB-DL.x264-flx'),
+      stream('Movie.2020.1080p.WEB-DL.x264-GRP'),
+      stream('Movie.2020.1080p.WEB-DL.x264-NTb'),
+      stream('Movie.2020.1080p.WEB-DL.x264'),
+    ], config);
+    expect(result.map(s => [s.releaseGroup, s.preferredReleaseGroup])).toEqual([
+      ['FLUX', true],
+      ['NTb', false],
+      [undefined, undefined],
+    ]);
+  });
+});
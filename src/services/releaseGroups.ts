@@ -0,0 +1,64 @@
+import { AddonConfig, ReleaseGroupRules, StremioStream } from '../types';
+
+// Release group lists (config.releaseGroups): blocked groups are always dropped, a non-empty allow list drops
+// everything else, and preferred groups are ranked higher (streamScoring.ts). Group names match
+// case-insensitively, and a name listed in `aliases` stands for its canonical group everywhere.
+
+const groupKey = (name: string): string => name.trim().toLowerCase();
+
+interface CompiledReleaseGroupRules {
+  canonicalNames: Map<string, string>; // Alias or canonical name (key) -> canonical name
+  allow: Set<string>; // Keys of canonical names
+  prefer: Set<string>;
+  block: Set<string>;
+}
+
+// Per config object: the same rules are checked for every stream of a request
+const compiledRules = new WeakMap<ReleaseGroupRules, CompiledReleaseGroupRules>();
+
+const compileRules = (rules: ReleaseGroupRules): CompiledReleaseGroupRules => {
+  const cached = compiledRules.get(rules);
+  if (cached) return cached;
+  const canonicalNames = new Map<string, string>();
+  for (const [canonical, aliases] of Object.entries(rules.aliases || {})) {
+    for (const name of [canonical, ...aliases]) canonicalNames.set(groupKey(name), canonical);
+  }
+  const toKeys = (names: string[] = []) =>
+    new Set(names.map(name => groupKey(canonicalNames.get(groupKey(name)) ?? name)));
+  const compiled = { canonicalNames, allow: toKeys(rules.allow), prefer: toKeys(rules.prefer), block: toKeys(rules.block) };
+  compiledRules.set(rules, compiled);
+  return compiled;
+};
+
+// The group's canonical name: the one its aliases are listed under, else as the release names it
+export const canonicalReleaseGroup = (group: string, config: AddonConfig): string =>
+  (config.releaseGroups && compileRules(config.releaseGroups).canonicalNames.get(groupKey(group))) || group;
+
+export const isPreferredReleaseGroup = (group: string | undefined, config: AddonConfig): boolean =>
+  !!group && !!config.releaseGroups && compileRules(config.releaseGroups).prefer.has(groupKey(canonicalReleaseGroup(group, config)));
+
+// Whether the release passes the block and allow lists. Preferred groups count as allowed.
+export const isAllowedReleaseGroup = (stream: StremioStream, config: AddonConfig): boolean => {
+  if (!config.releaseGroups) return true;
+  const rules = compileRules(config.releaseGroups);
+  const group = stream.parsedMeta?.releaseGroup;
+  const key = group ? groupKey(canonicalReleaseGroup(group, config)) : undefined;
+  if (key && rules.block.has(key)) return false;
+  if (rules.allow.size === 0) return true;
+  return !!key && (rules.allow.has(key) || rules.prefer.has(key));
+};
+
+// Sets `releaseGroup` (canonical name) and `preferredReleaseGroup` on every stream by a named group, and drops
+// the streams the block and allow lists rule out.
+export const applyReleaseGroupRules = (streams: StremioStream[], config: AddonConfig): StremioStream[] =>
+  streams
+    .filter(stream => isAllowedReleaseGroup(stream, config))
+    .map(stream => {
+      const group = stream.parsedMeta?.releaseGroup;
+      if (!group) return stream;
+      return {
+        ...stream,
+        releaseGroup: canonicalReleaseGroup(group, config),
+        preferredReleaseGroup: isPreferredReleaseGroup(group, config),
+      };
+    });
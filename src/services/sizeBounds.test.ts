@@ -0,0 +1,69 @@
+import { AddonConfig, SortPreference, StremioStream } from '../types';
+import { DEFAULT_SIZE_BOUNDS } from '../constants';
+import { applySizeBounds, estimateBitrateMbps, resolutionTier } from './sizeBounds';
+import { parseTorrentTitle } from './metadataParser';
+
+const GB = 1024 ** 3;
+
+const config: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: [],
+  filterLowQuality: false,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+const stream = (title: string, size: number, extra: Partial<StremioStream> = {}): StremioStream =>
+  ({ infoHash: title, size, parsedMeta: parseTorrentTitle(title), ...extra });
+
+describe('resolutionTier', () => {
+  it('maps resolutions to their tier', () => {
+    expect(resolutionTier('2160P')).toBe('2160p');
+    expect(resolutionTier('4K')).toBe('2160p');
+    expect(resolutionTier('1080P')).toBe('1080p');
+    expect(resolutionTier('720P')).toBe('720p');
+    expect(resolutionTier('480P')).toBe('sd');
+    expect(resolutionTier('SD')).toBe('sd');
+    expect(resolutionTier(undefined)).toBeUndefined();
+  });
+});
+
+describe('applySizeBounds', () => {
+  it('flags fakes and oversized releases for their resolution, over the runtime from metadata', () => {
+    const [fake, plausible, huge] = applySizeBounds([
+      stream('Movie.2020.2160p.WEB-DL.x265', 0.3 * GB),
+      stream('Movie.2020.1080p.BluRay.x264', 10 * GB),
+      stream('Movie.2020.720p.BluRay.x264', 30 * GB),
+    ], config, 'movie', 120);
+    expect(fake.sizeOutlier).toBe('too small');
+    expect(plausible.sizeOutlier).toBeUndefined();
+    expect(plausible.estimatedBitrateMbps).toBeCloseTo(estimateBitrateMbps(10 * GB, 120));
+    expect(huge.sizeOutlier).toBe('too large');
+  });
+
+  it('assumes a default runtime without one from metadata, and leaves the bitrate unset', () => {
+    const [checked] = applySizeBounds([stream('Movie.2020.2160p.WEB-DL.x265', 0.3 * GB)], config, 'movie');
+    expect(checked.sizeOutlier).toBe('too small');
+    expect(checked.estimatedBitrateMbps).toBeUndefined();
+  });
+
+  it('uses the configured bounds and drops outliers in drop mode', () => {
+    const streams = [stream('Movie.2020.1080p.BluRay.x264', 10 * GB), stream('Movie.2020.1080p.WEB-DL.x264', 2 * GB)];
+    const sizeBounds = { ...DEFAULT_SIZE_BOUNDS, '1080p': { minGBPerHour: 0.5, maxGBPerHour: 2 } };
+    const checked = applySizeBounds(streams, { ...config, sizeBounds, sizeBoundsMode: 'drop' }, 'movie', 120);
+    expect(checked.map(s => s.infoHash)).toEqual(['Movie.2020.1080p.WEB-DL.x264']);
+  });
+
+  it('checks single episodes and mapped pack files, but not whole season packs', () => {
+    const [episode, pack, mapped] = applySizeBounds([
+      stream('Show.S01E01.1080p.WEB-DL.x264', 20 * GB),
+      stream('Show.S01.1080p.WEB-DL.x264', 20 * GB),
+      stream('Show.S01.1080p.WEB-DL.x264', 40 * GB, { fileIdx: 3, behaviorHints: { videoSize: 20 * GB } }),
+    ], config, 'series', 45);
+    expect(episode.sizeOutlier).toBe('too large');
+    expect(pack.sizeOutlier).toBeUndefined();
+    expect(mapped.sizeOutlier).toBe('too large');
+  });
+});
@@ -0,0 +1,58 @@
+import { AddonConfig, ResolutionTier, StremioItemType, StremioStream } from '../types';
+import { DEFAULT_RUNTIME_MINUTES, DEFAULT_SIZE_BOUNDS } from '../constants';
+import { isSingleEpisode } from './metadataParser';
+import { resolutionLines } from './deviceCompatibility';
+import { playableSize } from './streamScoring';
+
+// Size sanity checks: the size of what will be played, divided by the runtime, must be plausible for the
+// release's resolution (config.sizeBounds). Catches fakes ("2160p" in 300 MB) and, with lowered maxima,
+// keeps huge remuxes off metered connections.
+
+const BYTES_PER_GB = 1024 ** 3;
+
+export const resolutionTier = (resolution?: string): ResolutionTier | undefined => {
+  const lines = resolutionLines(resolution);
+  if (lines === undefined) return resolution?.toUpperCase() === 'SD' ? 'sd' : undefined;
+  if (lines >= 2160) return '2160p';
+  if (lines >= 1080) return '1080p';
+  if (lines >= 720) return '720p';
+  return 'sd';
+};
+
+export const estimateBitrateMbps = (bytes: number, runtimeMinutes: number): number =>
+  (bytes * 8) / (runtimeMinutes * 60) / 1e6;
+
+// The size of one movie/episode is known: movies, single episodes and season packs mapped to the episode's file.
+// For unmapped packs it's the size of many episodes, so they aren't checked.
+const hasPlayableSize = (stream: StremioStream, type: StremioItemType): boolean =>
+  type !== 'series' || stream.fileIdx !== undefined || (!!stream.parsedMeta && isSingleEpisode(stream.parsedMeta));
+
+// Sets `estimatedBitrateMbps` (when the runtime is known) and `sizeOutlier` on every stream whose playable size
+// is known, and drops outliers in 'drop' mode. `runtimeMinutes` comes from metadata (per episode for series).
+export const applySizeBounds = (
+  streams: StremioStream[],
+  config: AddonConfig,
+  type: StremioItemType,
+  runtimeMinutes?: number
+): StremioStream[] => {
+  const bounds = config.sizeBounds || DEFAULT_SIZE_BOUNDS;
+  const assumedRuntime = runtimeMinutes || (type === 'series' ? DEFAULT_RUNTIME_MINUTES.episode : DEFAULT_RUNTIME_MINUTES.movie);
+  const checked = streams.map(stream => {
+    const size = playableSize(stream);
+    if (size <= 0 || !hasPlayableSize(stream, type)) return stream;
+    const tier = resolutionTier(stream.parsedMeta?.resolution);
+    const gbPerHour = (size / BYTES_PER_GB) / (assumedRuntime / 60);
+    let sizeOutlier: StremioStream['sizeOutlier'];
+    if (tier && gbPerHour < bounds[tier].minGBPerHour) sizeOutlier = 'too small';
+    else if (tier && gbPerHour > bounds[tier].maxGBPerHour) sizeOutlier = 'too large';
+    return {
+      ...stream,
+      estimatedBitrateMbps: runtimeMinutes ? estimateBitrateMbps(size, runtimeMinutes) : undefined,
+      sizeOutlier,
+    };
+  });
+  if (config.sizeBoundsMode === 'drop') {
+    return checked.filter(stream => !stream.sizeOutlier);
+  }
+  return checked;
+};
@@ -0,0 +1,119 @@
+import { AddonConfig, SortPreference, StremioStreamResponse } from '../types';
+import { buildStreamCacheKey, configureStreamCache, getCachedStreamResponse } from './streamCache';
+
+const response = (name: string, lifetimes: Partial<StremioStreamResponse> = {}): StremioStreamResponse =>
+  ({ streams: [{ name, title: name, infoHash: 'a'.repeat(40) }], cacheMaxAge: 60, staleRevalidate: 60, staleError: 600, ...lifetimes });
+
+const config: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: ['1080P'],
+  filterLowQuality: true,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+// Lets the background refresh of a stale-while-revalidate hit run to completion
+const flushPromises = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('getCachedStreamResponse', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    configureStreamCache({ maxEntries: 10 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('serves a fresh response without calling the loader again', async () => {
+    const loader = jest.fn().mockResolvedValue(response('first'));
+    await getCachedStreamResponse('key', loader);
+    jest.advanceTimersByTime(59_000);
+    expect(await getCachedStreamResponse('key', loader)).toEqual(response('first'));
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale response while refreshing it in the background', async () => {
+    await getCachedStreamResponse('key', async () => response('first'));
+    jest.advanceTimersByTime(90_000);
+    const refresh = jest.fn().mockResolvedValue(response('second'));
+    expect((await getCachedStreamResponse('key', refresh)).streams[0].name).toBe('first');
+    await flushPromises();
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect((await getCachedStreamResponse('key', refresh)).streams[0].name).toBe('second');
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for a refetch after the revalidate window, and falls back to the stale response on failure', async () => {
+    await getCachedStreamResponse('key', async () => response('first'));
+    jest.advanceTimersByTime(300_000);
+    expect((await getCachedStreamResponse('key', () => Promise.reject(new Error('down')))).streams[0].name).toBe('first');
+    expect((await getCachedStreamResponse('key', async () => ({ streams: [], error: 'Bitmagnet unavailable' }))).streams[0].name).toBe('first');
+    expect((await getCachedStreamResponse('key', async () => response('second'))).streams[0].name).toBe('second');
+  });
+
+  it('fails once the stale-on-error window has passed too', async () => {
+    await getCachedStreamResponse('key', async () => response('first'));
+    jest.advanceTimersByTime(700_000);
+    await expect(getCachedStreamResponse('key', () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+  });
+
+  it('does not store error responses', async () => {
+    await getCachedStreamResponse('key', async () => ({ streams: [], error: 'Bitmagnet unavailable' }));
+    const loader = jest.fn().mockResolvedValue(response('first'));
+    await getCachedStreamResponse('key', loader);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs the loader once for concurrent requests of the same key', async () => {
+    let resolve: (value: StremioStreamResponse) => void = () => undefined;
+    const loader = jest.fn(() => new Promise<StremioStreamResponse>(r => { resolve = r; }));
+    const requests = [getCachedStreamResponse('key', loader), getCachedStreamResponse('key', loader)];
+    resolve(response('first'));
+    const [a, b] = await Promise.all(requests);
+    expect(a).toBe(b);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    configureStreamCache({ maxEntries: 2 });
+    await getCachedStreamResponse('a', async () => response('a'));
+    await getCachedStreamResponse('b', async () => response('b'));
+    await getCachedStreamResponse('a', async () => response('a2')); // Fresh hit: "a" is now the most recently used
+    await getCachedStreamResponse('c', async () => response('c'));
+    const loader = jest.fn().mockResolvedValue(response('reloaded'));
+    expect((await getCachedStreamResponse('a', loader)).streams[0].name).toBe('a');
+    expect((await getCachedStreamResponse('b', loader)).streams[0].name).toBe('reloaded');
+  });
+
+  it('stores nothing when disabled', async () => {
+    configureStreamCache({ maxEntries: 0 });
+    const loader = jest.fn().mockResolvedValue(response('first'));
+    await getCachedStreamResponse('key', loader);
+    await getCachedStreamResponse('key', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('buildStreamCacheKey', () => {
+  it('is the same for equal configs, whatever their key order', () => {
+    const request = { type: 'movie' as const, id: 'TT0111161' };
+    const reordered = Object.fromEntries(Object.entries(config).reverse()) as unknown as AddonConfig;
+    expect(buildStreamCacheKey(request, config)).toBe(buildStreamCacheKey({ ...request, id: 'tt0111161' }, reordered));
+  });
+
+  it('differs between configs and episodes', () => {
+    const request = { type: 'series' as const, id: 'tt0903747', season: 1, episode: 1 };
+    expect(buildStreamCacheKey(request, config)).not.toBe(buildStreamCacheKey(request, { ...config, minSeeders: 5 }));
+    expect(buildStreamCacheKey(request, config)).not.toBe(buildStreamCacheKey({ ...request, episode: 2 }, config));
+  });
+
+  it('does not contain the config itself, which may hold API keys', () => {
+    const key = buildStreamCacheKey({ type: 'movie', id: 'tt0111161' }, { ...config, bitmagnetEndpoints: [{ url: 'http://x', apiKey: 'secret' }] });
+    expect(key).not.toContain('secret');
+  });
+});
@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { readFileSync, promises as fs } from 'fs';
+import { AddonConfig, StremioRequestType, StremioStreamResponse } from '../types';
+import { STREAM_CACHE_MAX_AGE, STREAM_STALE_REVALIDATE, STREAM_STALE_ERROR, DEFAULT_STREAM_CACHE_MAX_ENTRIES } from '../constants';
+
+// Server-side cache for stream responses.
+// Lifetimes follow the cacheMaxAge / staleRevalidate / staleError values of each cached response, so the server
+// behaves like the Stremio client is told to: fresh -> served as is; within the revalidate window -> served stale
+// while a background refresh runs; older -> refetched, with the stale copy standing in if the refetch fails.
+
+interface StreamCacheEntry {
+  response: StremioStreamResponse;
+  storedAt: number; // epoch ms
+}
+
+export interface StreamCacheOptions {
+  maxEntries: number; // 0 disables the cache
+  persistPath?: string; // JSON file the cache is loaded from on startup and periodically written to
+}
+
+const PERSIST_DEBOUNCE = 5000; // Write at most once every 5s
+
+let options: StreamCacheOptions = { maxEntries: DEFAULT_STREAM_CACHE_MAX_ENTRIES };
+const entries = new Map<string, StreamCacheEntry>(); // Insertion order doubles as LRU order (oldest first)
+const inFlight = new Map<string, Promise<StremioStreamResponse>>();
+let persistTimer: NodeJS.Timeout | undefined;
+
+const lifetimes = (response: StremioStreamResponse) => {
+  const maxAge = (response.cacheMaxAge ?? STREAM_CACHE_MAX_AGE) * 1000;
+  return {
+    maxAge,
+    revalidateUntil: maxAge + (response.staleRevalidate ?? STREAM_STALE_REVALIDATE) * 1000,
+    staleErrorUntil: maxAge + (response.staleError ?? STREAM_STALE_ERROR) * 1000,
+  };
+};
+
+// Entries are useless once they can no longer be served even on error.
+const isExpired = (entry: StreamCacheEntry, now: number): boolean =>
+  now - entry.storedAt >= lifetimes(entry.response).staleErrorUntil;
+
+const schedulePersist = () => {
+  if (!options.persistPath || persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = undefined;
+    persistStreamCache().catch(error =>
+      console.warn(`[streamCache] Failed to persist cache to ${options.persistPath}: ${error instanceof Error ? error.message : String(error)}`));
+  }, PERSIST_DEBOUNCE);
+  persistTimer.unref(); // Never keep the process alive just to persist
+};
+
+const store = (key: string, response: StremioStreamResponse) => {
+  entries.delete(key);
+  entries.set(key, { response, storedAt: Date.now() });
+  while (entries.size > options.maxEntries) {
+    const oldestKey = entries.keys().next().value;
+    if (oldestKey === undefined) break;
+    entries.delete(oldestKey);
+  }
+  schedulePersist();
+};
+
+// Runs the loader once per key at a time; concurrent callers share the same promise.
+// Only successful responses (no `error`) are stored.
+const load = (key: string, loader: () => Promise<StremioStreamResponse>): Promise<StremioStreamResponse> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+  const request = loader()
+    .then(response => {
+      if (!response.error) store(key, response);
+      return response;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+};
+
+export const configureStreamCache = (newOptions: StreamCacheOptions) => {
+  options = newOptions;
+  entries.clear();
+  if (!options.persistPath || options.maxEntries <= 0) return;
+  try {
+    const persisted: Array<[string, StreamCacheEntry]> = JSON.parse(readFileSync(options.persistPath, 'utf8'));
+    const now = Date.now();
+    for (const [key, entry] of persisted) {
+      if (entry && entry.response && !isExpired(entry, now)) entries.set(key, entry);
+    }
+    console.log(`[streamCache] Loaded ${entries.size} cached stream responses from ${options.persistPath}.`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`[streamCache] Could not load persisted cache from ${options.persistPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+export const persistStreamCache = async (): Promise<void> => {
+  if (!options.persistPath) return;
+  const now = Date.now();
+  const snapshot = Array.from(entries.entries()).filter(([, entry]) => !isExpired(entry, now));
+  const tempPath = `${options.persistPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(snapshot));
+  await fs.rename(tempPath, options.persistPath);
+};
+
+// Stable JSON: object keys sorted so that equal configs always produce the same string
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort()
+      .filter(k => record[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Key = normalized request + effective config (hashed, since the config may contain API keys).
+export const buildStreamCacheKey = (request: StremioRequestType, config: AddonConfig): string => {
+  const configHash = createHash('sha1').update(stableStringify(config)).digest('hex');
+  return [request.type, request.id.toLowerCase(), request.season ?? '', request.episode ?? '', configHash].join('|');
+};
+
+export const getCachedStreamResponse = async (
+  key: string,
+  loader: () => Promise<StremioStreamResponse>
+): Promise<StremioStreamResponse> => {
+  if (options.maxEntries <= 0) return load(key, loader); // Cache disabled; still coalesce concurrent requests
+
+  const entry = entries.get(key);
+  if (!entry) return load(key, loader);
+
+  const age = Date.now() - entry.storedAt;
+  const { maxAge, revalidateUntil, staleErrorUntil } = lifetimes(entry.response);
+  entries.delete(key); // Mark as most recently used
+  entries.set(key, entry);
+
+  if (age < maxAge) return entry.response;
+
+  if (age < revalidateUntil) {
+    // Stale-while-revalidate: answer now, refresh in the background
+    load(key, loader).catch(error =>
+      console.warn(`[streamCache] Background refresh failed for ${key}: ${error instanceof Error ? error.message : String(error)}`));
+    return entry.response;
+  }
+
+  try {
+    const response = await load(key, loader);
+    if (response.error && age < staleErrorUntil) {
+      console.warn(`[streamCache] Refresh for ${key} returned an error (${response.error}); serving stale response.`);
+      return entry.response;
+    }
+    return response;
+  } catch (error) {
+    if (age < staleErrorUntil) {
+      console.warn(`[streamCache] Refresh for ${key} failed; serving stale response: ${error instanceof Error ? error.message : String(error)}`);
+      return entry.response;
+    }
+    throw error;
+  }
+};
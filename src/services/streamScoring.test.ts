@@ -0,0 +1,84 @@
+import { AddonConfig, SortPreference, StremioStream } from '../types';
+import { DEFAULT_SCORING_WEIGHTS } from '../constants';
+import { parseTorrentTitle } from './metadataParser';
+import { hasPreferredSubtitles, preferredLanguageMatch, scoreStream, scoreStreams } from './streamScoring';
+
+const GB = 1024 ** 3;
+
+const config: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  preferredLanguages: ['pt-BR', 'en'],
+  qualitySortOrder: [],
+  filterLowQuality: false,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+const stream = (title: string, extra: Partial<StremioStream> = {}): StremioStream =>
+  ({ infoHash: title, seeders: 10, size: 5 * GB, parsedMeta: parseTorrentTitle(title), ...extra });
+
+describe('preferredLanguageMatch', () => {
+  it('scores the first preferred language highest, then the next ones, then multi-language releases', () => {
+    const portuguese = preferredLanguageMatch(stream('Movie.2020.PT-BR.1080p.WEB-DL.x264'), config);
+    const english = preferredLanguageMatch(stream('Movie.2020.ENGLISH.1080p.WEB-DL.x264'), config);
+    const multi = preferredLanguageMatch(stream('Movie.2020.MULTI.1080p.WEB-DL.x264'), config);
+    expect(portuguese).toBe(1);
+    expect(english).toBeLessThan(portuguese);
+    expect(multi).toBe(0.75);
+    expect(preferredLanguageMatch(stream('Movie.2020.FRENCH.1080p.WEB-DL.x264'), config)).toBe(0);
+  });
+
+  it('counts an untagged release as half of English, when English is preferred', () => {
+    const untagged = stream('Movie.2020.1080p.WEB-DL.x264');
+    expect(preferredLanguageMatch(untagged, config)).toBe(preferredLanguageMatch(stream('Movie.2020.ENGLISH.1080p.WEB-DL.x264'), config) / 2);
+    expect(preferredLanguageMatch(untagged, { ...config, preferredLanguages: ['fr'] })).toBe(0);
+  });
+});
+
+describe('hasPreferredSubtitles', () => {
+  it('matches the subtitle languages against the preferred ones', () => {
+    expect(hasPreferredSubtitles(stream('Parasite.2019.KOREAN.1080p.BluRay.x264.ENGSUB'), config)).toBe(true);
+    expect(hasPreferredSubtitles(stream('Amelie.2001.FRENCH.1080p.BluRay.x264.VOSTFR'), config)).toBe(false);
+    expect(hasPreferredSubtitles(stream('Amelie.2001.FRENCH.1080p.BluRay.x264'), config)).toBe(false);
+  });
+});
+
+describe('scoreStream', () => {
+  it('ranks a better quality above a few more seeders', () => {
+    const [uhd, sd] = scoreStreams([
+      stream('Movie.2020.2160p.BluRay.x265', { seeders: 20 }),
+      stream('Movie.2020.480p.WEBRip.x264', { seeders: 25 }),
+    ], config).map(scored => scored.score?.total ?? 0);
+    expect(uhd).toBeGreaterThan(sd);
+  });
+
+  it('weights every component by the configured weight', () => {
+    const weights = { quality: 0, seeders: 0, language: 0, size: 0, codec: 0, hdr: 0, releaseGroup: 0, titleConfidence: 10 };
+    const score = scoreStream(stream('Movie.2020.1080p.BluRay.x264', { titleConfidence: 0.5 }), config, 5 * GB, weights);
+    expect(score.total).toBe(5);
+    expect(score.components.titleConfidence).toBe(5);
+    expect(score.components.quality).toBe(0);
+  });
+
+  it('sizes relative to the largest playable size', () => {
+    const score = scoreStream(stream('Movie.2020.1080p.BluRay.x264', { size: 5 * GB }), config, 10 * GB);
+    expect(score.components.size).toBe(DEFAULT_SCORING_WEIGHTS.size / 2);
+  });
+
+  it('adds the preferred release group bonus before the size outlier penalty', () => {
+    const plain = scoreStream(stream('Movie.2020.1080p.BluRay.x264-GRP'), config, 5 * GB);
+    const preferred = scoreStream(stream('Movie.2020.1080p.BluRay.x264-GRP', { preferredReleaseGroup: true }), config, 5 * GB);
+    expect(preferred.bonus).toBeGreaterThan(0);
+    expect(preferred.total).toBeCloseTo(plain.total + (preferred.bonus ?? 0), 0);
+    const outlier = scoreStream(stream('Movie.2020.1080p.BluRay.x264-GRP', { preferredReleaseGroup: true, sizeOutlier: 'too small' }), config, 5 * GB);
+    expect(outlier.total).toBeCloseTo(preferred.total / 2, 0);
+    expect(outlier.penalty).toBeCloseTo(preferred.total / 2, 0);
+  });
+
+  it('does not penalize size outliers in drop mode', () => {
+    const score = scoreStream(stream('Movie.2020.1080p.BluRay.x264', { sizeOutlier: 'too large' }), { ...config, sizeBoundsMode: 'drop' }, 5 * GB);
+    expect(score.penalty).toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { AddonConfig, ScoreBreakdown, ScoringComponent, ScoringWeights, StremioStream, VideoQualityRank } from '../types';
+import { CODEC_SCORES, DEFAULT_SCORING_WEIGHTS, HDR_FORMAT_SCORES, LANGUAGE_FALLBACK_SCORES, PREFERRED_RELEASE_GROUP_BONUS, SEEDERS_SCORE_SATURATION, SIZE_OUTLIER_PENALTY, SUBTITLED_LANGUAGE_SCORE } from '../constants';
+import { getQualityRank } from './stremioFormatter';
+import { DUAL_AUDIO, MULTI_AUDIO, baseLanguage, matchesLanguage, preferredLanguageCodes, subtitleLanguageCodes } from '../utils/languages';
+
+// Ranks streams by a weighted score instead of a strict comparator chain, so that one extra seeder can't
+// outrank 4K vs 480p. Each component is normalized to 0-1 and multiplied by its weight from the config;
+// config.sortPreference only breaks ties between equal scores.
+
+export const SCORING_COMPONENTS = Object.keys(DEFAULT_SCORING_WEIGHTS) as ScoringComponent[];
+
+const fallbackScore = (index: number): number =>
+  LANGUAGE_FALLBACK_SCORES[Math.min(index, LANGUAGE_FALLBACK_SCORES.length - 1)];
+
+// How well the release's audio languages fit the preferred languages (preferredLanguageCodes):
+// the fallback score of the best preferred language it has, 0.75 multi-language, half the score of English for
+// untagged releases (scene releases usually omit the tag for English audio), 0 otherwise.
+export const preferredLanguageMatch = (stream: StremioStream, config: AddonConfig): number => {
+  const preferred = preferredLanguageCodes(config);
+  const languages = stream.parsedMeta?.languages || [];
+  if (languages.length === 0) {
+    const english = preferred.findIndex(code => baseLanguage(code) === 'en');
+    return english >= 0 ? fallbackScore(english) / 2 : 0;
+  }
+  const index = preferred.findIndex(code => languages.some(language => matchesLanguage(language, code)));
+  if (index >= 0) return fallbackScore(index);
+  if (languages.includes(MULTI_AUDIO) || languages.includes(DUAL_AUDIO)) return 0.75;
+  return 0;
+};
+
+// Whether the release is subtitled in a language of subtitleLanguageCodes. Multi-subs without named languages
+// count, as such packs nearly always include the common languages.
+export const hasPreferredSubtitles = (stream: StremioStream, config: AddonConfig): boolean => {
+  const subtitles = stream.parsedMeta?.subtitles;
+  if (!subtitles) return false;
+  if (subtitles.type === 'multi' && subtitles.languages.length === 0) return true;
+  const wanted = subtitleLanguageCodes(config);
+  return subtitles.languages.some(language => wanted.some(code => matchesLanguage(language, code)));
+};
+
+// Audio match, or SUBTITLED_LANGUAGE_SCORE for a foreign-audio release with the preferred subtitles. Subtitles burned
+// in in another language can't be turned off, so they halve it.
+const languageComponent = (stream: StremioStream, config: AddonConfig): number => {
+  const subtitled = hasPreferredSubtitles(stream, config);
+  const match = Math.max(preferredLanguageMatch(stream, config), subtitled ? SUBTITLED_LANGUAGE_SCORE : 0);
+  return stream.parsedMeta?.subtitles?.type === 'hardcoded' && !subtitled ? match / 2 : match;
+};
+
+// Within a rank, remuxes and 10-bit encodes are a notch better (less than the step to the next rank)
+const REMUX_BONUS = 0.5;
+const TEN_BIT_BONUS = 0.25;
+
+const qualityComponent = (stream: StremioStream): number => {
+  const rank = getQualityRank(stream.parsedMeta);
+  if (rank <= VideoQualityRank.LOW_QUALITY) return 0;
+  const bonus = (stream.parsedMeta?.isRemux ? REMUX_BONUS : 0) + ((stream.parsedMeta?.bitDepth || 0) >= 10 ? TEN_BIT_BONUS : 0);
+  return (rank + bonus) / (VideoQualityRank.UHD_BLURAY + REMUX_BONUS + TEN_BIT_BONUS);
+};
+
+// Dynamic metadata formats first; a dual-layer release counts with its best format
+const hdrComponent = (stream: StremioStream): number => {
+  const formats = stream.parsedMeta?.hdrFormats || [];
+  if (formats.length === 0) return stream.parsedMeta?.isHDR ? HDR_FORMAT_SCORES.HDR10 : 0;
+  return Math.max(...formats.map(format => HDR_FORMAT_SCORES[format] ?? 0));
+};
+
+const seedersComponent = (stream: StremioStream): number =>
+  Math.min(1, Math.log10(1 + (stream.seeders || 0)) / Math.log10(1 + SEEDERS_SCORE_SATURATION));
+
+// Size of what will actually be played: the episode file of a mapped season pack, else the whole torrent
+export const playableSize = (stream: StremioStream): number =>
+  (stream.fileIdx !== undefined ? stream.behaviorHints?.videoSize : undefined) || stream.size || 0;
+
+const codecComponent = (stream: StremioStream): number => {
+  const codec = stream.parsedMeta?.videoCodec?.toUpperCase().replace(/[.\s-]/g, '');
+  return codec ? CODEC_SCORES[codec] ?? 0 : 0;
+};
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// Scores one stream. `largestSize` is the largest playable size among the streams being ranked.
+export const scoreStream = (
+  stream: StremioStream,
+  config: AddonConfig,
+  largestSize: number,
+  weights: ScoringWeights = config.scoringWeights || DEFAULT_SCORING_WEIGHTS
+): ScoreBreakdown => {
+  const normalized: Record<ScoringComponent, number> = {
+    quality: qualityComponent(stream),
+    seeders: seedersComponent(stream),
+    language: languageComponent(stream, config),
+    size: largestSize > 0 ? playableSize(stream) / largestSize : 0,
+    codec: codecComponent(stream),
+    hdr: hdrComponent(stream),
+    // Releases by a named group are less often mislabeled or fake than anonymous uploads
+    releaseGroup: stream.parsedMeta?.releaseGroup ? 1 : 0,
+    // Unknown when searching by IMDB ID; Bitmagnet's content link then already vouches for the title
+    titleConfidence: stream.titleConfidence ?? 0,
+  };
+  const components = {} as Record<ScoringComponent, number>;
+  let total = 0;
+  for (const component of SCORING_COMPONENTS) {
+    const contribution = normalized[component] * (weights[component] || 0);
+    components[component] = roundTo(contribution, 2);
+    total += contribution;
+  }
+  // Trusted groups (config.releaseGroups.prefer) get a share on top, so they outrank a slightly better-seeded
+  // anonymous upload but not a release of a better quality
+  const bonus = stream.preferredReleaseGroup ? total * PREFERRED_RELEASE_GROUP_BONUS : 0;
+  total += bonus;
+  const breakdown: ScoreBreakdown = { total: roundTo(total, 1), components };
+  if (bonus > 0) breakdown.bonus = roundTo(bonus, 1);
+  if (stream.sizeOutlier && config.sizeBoundsMode !== 'drop') {
+    const penalty = total * SIZE_OUTLIER_PENALTY;
+    return { ...breakdown, total: roundTo(total - penalty, 1), penalty: roundTo(penalty, 1) };
+  }
+  return breakdown;
+};
+
+// Returns the streams with `score` set.
+export const scoreStreams = (streams: StremioStream[], config: AddonConfig): StremioStream[] => {
+  const largestSize = Math.max(0, ...streams.map(playableSize));
+  return streams.map(stream => ({ ...stream, score: scoreStream(stream, config, largestSize) }));
+};
@@ -1,5 +1,7 @@
-import { StremioStream, ParsedMetadata, VideoQualityRank, TrackerSources, StremioItemType } from '../types'; // Adjusted path
-import { EMOJIS, QUALITY_RANK_MAP, LOW_QUALITY_TERMS, LOW_QUALITY_RESOLUTIONS } from '../constants'; // Adjusted path
+import { StremioStream, ParsedMetadata, VideoQualityRank, TrackerSources, StremioItemType, ScoreBreakdown, ScoringComponent, AudioTrack } from '../types'; // Adjusted path
+import { EMOJIS, QUALITY_RANK_MAP, LOW_QUALITY_TERMS, LOW_QUALITY_RESOLUTIONS, FORMAT_DISPLAY_NAMES } from '../constants'; // Adjusted path
+import { isSingleEpisode } from './metadataParser';
+import { languageLabel } from '../utils/languages';
 
 export const getQualityRank = (parsedMeta?: ParsedMetadata): VideoQualityRank => {
   if (!parsedMeta) return VideoQualityRank.UNKNOWN;
@@ -19,6 +21,11 @@ export const getQualityRank = (parsedMeta?: ParsedMetadata): VideoQualityRank =>
     return VideoQualityRank.SD; // Other SD resolutions
   }
   
+  // Remuxes rank as the disc they come from, whatever source tag comes first ("BluRay.REMUX", "UHD.REMUX")
+  if (parsedMeta.isRemux && resolution && QUALITY_RANK_MAP[`${resolution} REMUX`]) {
+    return QUALITY_RANK_MAP[`${resolution} REMUX`];
+  }
+
   // Combined resolution and source (e.g., "1080P BLURAY")
   if (resolution && source) {
     const combinedKey = `${resolution} ${source.replace(/-/g, '')}`; // Normalize "WEB-DL" to "WEBDL" etc.
@@ -45,12 +52,52 @@ const formatSize = (bytes?: number): string | undefined => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
+const formatEpisode = (season: number, episode: number): string =>
+  `S${String(season).padStart(2, '0')}E${String(episode).padStart(2, '0')}`;
+
+// "S01E05", "S01E01-E03", "S02", "S01-S05", "Complete Series", "#137", "#01-12", "Batch", "2024-03-14";
+// undefined if the title had no S/E information
+const formatEpisodeCoverage = (meta: ParsedMetadata): string | undefined => {
+  if (meta.isCompleteSeries) return 'Complete Series';
+  if (meta.airDate && !meta.seasonRange) return meta.airDate;
+  if (meta.absoluteEpisodeRange) {
+    const { start, end } = meta.absoluteEpisodeRange;
+    return `#${String(start).padStart(2, '0')}${end !== start ? `-${String(end).padStart(2, '0')}` : ''}`;
+  }
+  if (meta.isBatch) return 'Batch';
+  const seasons = meta.seasonRange;
+  const episodes = meta.episodeRange;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (seasons && seasons.start !== seasons.end) return `S${pad(seasons.start)}-S${pad(seasons.end)}`;
+  const seasonPart = seasons ? `S${pad(seasons.start)}` : '';
+  if (!episodes) return seasonPart || undefined;
+  return `${seasonPart}E${pad(episodes.start)}${episodes.end !== episodes.start ? `-E${pad(episodes.end)}` : ''}`;
+};
+
+const formatDisplayName = (name: string): string => FORMAT_DISPLAY_NAMES[name] || name;
+
+const formatAudioTrack = (track: AudioTrack): string =>
+  [track.codec ? formatDisplayName(track.codec) : undefined, track.channels, track.atmos ? 'Atmos' : undefined]
+    .filter(Boolean).join(' ');
+
+// "72.4 (quality 36, seeders 18.2, language 15)": components that contributed, largest first
+export const formatScoreBreakdown = (score: ScoreBreakdown): string => {
+  const parts = (Object.keys(score.components) as ScoringComponent[])
+    .filter(component => score.components[component] > 0)
+    .sort((a, b) => score.components[b] - score.components[a])
+    .map(component => `${component} ${score.components[component]}`);
+  if (score.bonus) parts.push(`preferred group +${score.bonus}`);
+  if (score.penalty) parts.push(`size penalty -${score.penalty}`);
+  return `${score.total}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`;
+};
+
 export const formatStreamForResult = (
   stream: StremioStream,
   trackers: TrackerSources,
   itemType: StremioItemType,
   seasonNum?: number, // From Stremio request
-  episodeNum?: number // From Stremio request
+  episodeNum?: number, // From Stremio request
+  showScoreBreakdown: boolean = false // config.showScoreBreakdown
 ): StremioStream => {
   const meta = stream.parsedMeta || ({} as ParsedMetadata);
   
@@ -59,7 +106,8 @@ export const formatStreamForResult = (
   if (meta.resolution) nameParts.push(meta.resolution);
   else if (meta.qualitySource) nameParts.push(meta.qualitySource.split(/[\s-]/)[0]); // First word of source
   else nameParts.push("Stream");
-  if (meta.isHDR) nameParts.push("HDR");
+  if (meta.hdrFormats && meta.hdrFormats.length > 0) nameParts.push(meta.hdrFormats.join('/'));
+  else if (meta.isHDR) nameParts.push("HDR");
 
   // Stream Title for Stremio Details (Rich & Multi-line)
   const titleLines: string[] = [];
@@ -68,12 +116,15 @@ export const formatStreamForResult = (
   const displayTitle = meta.cleanedTitle || meta.originalTitle.split(/(\d{4}|S\d{2}E\d{2})/)[0].replace(/[._]/g, ' ').trim() || "Unknown Title";
   const displayYear = meta.year || "";
   titleLines.push(`${EMOJIS.TITLE} ${displayTitle}${displayYear ? ` (${displayYear})` : ''}`);
+  if (meta.edition) titleLines.push(`${EMOJIS.EDITION} ${meta.edition}`);
   
-  // Episode Info Line (for series)
+  // Episode Info Line (for series): the requested episode, plus what a pack covers
   if (itemType === 'series') {
-      let episodeString = meta.episodeInfo; // Parsed from torrent title SxxExx
-      if (!episodeString && seasonNum && episodeNum) { // Fallback to request S/E
-        episodeString = `S${String(seasonNum).padStart(2, '0')}E${String(episodeNum).padStart(2, '0')}`;
+      const coverage = formatEpisodeCoverage(meta);
+      const requested = seasonNum && episodeNum ? formatEpisode(seasonNum, episodeNum) : undefined;
+      let episodeString = coverage;
+      if (requested && !isSingleEpisode(meta)) {
+        episodeString = coverage ? `${requested} (pack: ${coverage})` : requested;
       }
       if (episodeString) {
         titleLines.push(`${EMOJIS.EPISODE} ${episodeString}`);
@@ -84,21 +135,34 @@ export const formatStreamForResult = (
   let qualityDetails = [];
   if (meta.resolution) qualityDetails.push(meta.resolution);
   if (meta.qualitySource) qualityDetails.push(meta.qualitySource);
-  if (meta.videoCodec) qualityDetails.push(meta.videoCodec);
-  if (meta.isHDR) qualityDetails.push("HDR");
+  if (meta.isRemux && meta.qualitySource?.toUpperCase() !== 'REMUX') qualityDetails.push("REMUX");
+  if (meta.videoCodec) qualityDetails.push(meta.bitDepth ? `${meta.videoCodec} ${meta.bitDepth}bit` : meta.videoCodec);
+  if (meta.hdrFormats && meta.hdrFormats.length > 0) qualityDetails.push(meta.hdrFormats.map(formatDisplayName).join(' + '));
+  else if (meta.isHDR) qualityDetails.push("HDR");
   if (qualityDetails.length > 0) {
     titleLines.push(`${EMOJIS.QUALITY} ${qualityDetails.join(' | ')}`);
   }
 
-  // Language Line
+  // Language Line: flag and name per audio language ("🇧🇷 Portuguese (Brazil), 🇬🇧 English")
   if (meta.languages && meta.languages.length > 0) {
-    const langStr = meta.languages.slice(0, 3).join(', ') + (meta.languages.length > 3 ? '...' : '');
+    const langStr = meta.languages.slice(0, 3).map(languageLabel).join(', ') + (meta.languages.length > 3 ? '...' : '');
     titleLines.push(`${EMOJIS.LANGUAGE} ${langStr}`);
   }
 
-  // Audio Line
+  // Subtitles Line: "🇬🇧 English (hardcoded)", "Hardcoded subs", "Multi subs", "Subbed"
+  if (meta.subtitles) {
+    const { languages, type } = meta.subtitles;
+    let subtitleString = languages.length > 0 ? languages.slice(0, 3).map(languageLabel).join(', ') + (languages.length > 3 ? '...' : '') : '';
+    if (type === 'multi' && languages.length === 0) subtitleString = 'Multi subs';
+    else if (type) subtitleString = subtitleString ? `${subtitleString} (${type})` : `${type.charAt(0).toUpperCase()}${type.slice(1)} subs`;
+    titleLines.push(`${EMOJIS.SUBTITLES} ${subtitleString || 'Subbed'}`);
+  }
+
+  // Audio Line: structured tracks ("TrueHD 7.1 Atmos + DD 5.1"), else whatever the parser kept
   let audioDisplay = "";
-  if (typeof meta.audioCodec === 'string' && meta.audioCodec.trim() !== '') {
+  if (meta.audioTracks && meta.audioTracks.length > 0) {
+    audioDisplay = meta.audioTracks.map(formatAudioTrack).join(' + ');
+  } else if (typeof meta.audioCodec === 'string' && meta.audioCodec.trim() !== '') {
     audioDisplay = meta.audioCodec;
   } else if (Array.isArray(meta.audioCodec) && meta.audioCodec.length > 0) {
      audioDisplay = meta.audioCodec.join(' ');
@@ -111,16 +175,31 @@ export const formatStreamForResult = (
       titleLines.push(`${EMOJIS.SEEDERS} ${seeders} seeds`);
   }
 
-  // Size Line
+  // Size Line (for a mapped pack: episode file size, then whole pack), estimated bitrate, size sanity warning
   const formattedSize = formatSize(stream.size || meta.calculatedSize);
-  if (formattedSize) {
-    titleLines.push(`${EMOJIS.SIZE} ${formattedSize}`);
+  const formattedFileSize = stream.fileIdx !== undefined ? formatSize(stream.behaviorHints?.videoSize) : undefined;
+  let sizeString = formattedFileSize && formattedSize ? `${formattedFileSize} (pack ${formattedSize})` : formattedSize;
+  if (sizeString) {
+    if (stream.estimatedBitrateMbps) sizeString += ` · ~${stream.estimatedBitrateMbps.toFixed(1)} Mbps`;
+    if (stream.sizeOutlier) sizeString += ` · ${EMOJIS.WARNING} ${stream.sizeOutlier} for ${meta.resolution}`;
+    titleLines.push(`${EMOJIS.SIZE} ${sizeString}`);
   }
   
-  // Release Group Line (Optional)
-  // if (meta.releaseGroup) {
-  //     titleLines.push(`${EMOJIS.INFO} ${meta.releaseGroup}`);
-  // }
+  // Release Group Line: canonical name from applyReleaseGroupRules, as parsed if the rules didn't run
+  const releaseGroup = stream.releaseGroup || meta.releaseGroup;
+  if (releaseGroup) {
+    titleLines.push(`${EMOJIS.RELEASE_GROUP} ${releaseGroup}${stream.preferredReleaseGroup ? ` ${EMOJIS.PREFERRED} preferred` : ''}`);
+  }
+
+  // Device Line: what the configured device can't play (deprioritize mode)
+  if (stream.incompatibilities && stream.incompatibilities.length > 0) {
+    titleLines.push(`${EMOJIS.WARNING} Not supported on this device: ${stream.incompatibilities.join(', ')}`);
+  }
+
+  // Score Line (for tuning config.scoringWeights)
+  if (showScoreBreakdown && stream.score) {
+    titleLines.push(`${EMOJIS.SCORE} ${formatScoreBreakdown(stream.score)}`);
+  }
 
   // Combine all available tracker URLs
   const allTrackers = [
@@ -139,31 +218,14 @@ export const formatStreamForResult = (
     sources: { 
       // 'tracker:': allTrackers // Stremio might not directly use this array if it has its own tracker resolution
     },
-    behaviorHints: {},
+    // Set by season pack file mapping (addonService): the episode's file inside a multi-file torrent
+    fileIdx: stream.fileIdx,
+    behaviorHints: { ...stream.behaviorHints },
     // Keep parsedMeta for potential internal use, but it's not directly sent to Stremio in this structure
     // parsedMeta: meta, 
     seeders: stream.seeders, // Stremio might use this for display if available
     // size: stream.size, // Stremio might use this
   };
   
-  // Add `fileIdx` (Stremio uses `fileIdx` for torrents with multiple files, not `mapIdx`)
-  // This is a very basic heuristic. Proper fileIdx requires Bitmagnet to provide an ordered file list
-  // from the torrent, and then matching the requested episode (S/E) to a file in that list.
-  if (itemType === 'series' && episodeNum !== undefined && seasonNum !== undefined) {
-    // Heuristic: if torrent title indicates a pack (e.g. "S01 Complete") or lacks specific episode info,
-    // and we are looking for a specific episode, we might assume the episode number (1-based) can map to fileIdx (0-based).
-    const isLikelyPack = (meta.qualitySource?.toUpperCase().includes("COMPLETE") || meta.qualitySource?.toUpperCase().includes("SEASON")) ||
-                         (meta.episodeInfo && meta.episodeInfo.toUpperCase() === `S${String(seasonNum).padStart(2,'0')}` && !meta.episodeInfo.toUpperCase().includes('E'));
-    
-    if (isLikelyPack) {
-       // stremioFormattedStream.fileIdx = episodeNum -1; // 0-based index
-       // stremioFormattedStream.behaviorHints.bingeGroup = `${stream.infoHash}_S${String(seasonNum).padStart(2,'0')}`;
-       // console.log(`[stremioFormatter] Potential pack detected for ${meta.originalTitle}, S${seasonNum}E${episodeNum}. Not setting fileIdx due to unreliability without file list.`);
-       // It's safer NOT to set fileIdx unless you have the actual file list from the torrent
-       // and can reliably map the episode to a file index. Stremio players often auto-select well.
-    }
-  }
-
-
   return stremioFormattedStream;
 };
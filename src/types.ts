@@ -32,8 +32,44 @@ export interface StremioRequestType {
   config?: Record<string, any>; // User config from Stremio
 }
 
+// Canonical metadata for a movie or series, resolved from its IMDB ID by a MetadataProvider.
+export interface MediaMetadata {
+  imdbId: string;
+  type: StremioItemType;
+  title: string; // Canonical (usually English) title
+  originalTitle?: string; // Title in the original language, if different
+  year?: number; // Release year (movies) or first air year (series)
+  aliases: string[]; // Alternative / localized titles
+  runtimeMinutes?: number; // Typical runtime (per episode for series)
+  episodes?: EpisodeMetadata[]; // Series only
+}
+
+export interface EpisodeMetadata {
+  season: number;
+  episode: number;
+  title?: string;
+  airDate?: string; // "YYYY-MM-DD"
+}
+
+export interface MetadataProvider {
+  name: string;
+  // Resolves undefined when the provider doesn't know the ID; rejects on transport/API errors.
+  getMetadata: (imdbId: string, type: StremioItemType) => Promise<MediaMetadata | undefined>;
+}
+
+export type MetadataProviderName = 'cinemeta' | 'tmdb' | 'imdb-dataset' | 'none';
+
+export interface MetadataProviderConfig {
+  provider: MetadataProviderName;
+  baseUrl?: string; // Override the provider's public API, e.g. a local stand-in during tests
+  apiKey?: string; // TMDB v3 API key or v4 read access token
+  indexDir?: string; // Local IMDb index built by `npm run import-imdb` (imdb-dataset provider)
+  cacheTtlMs?: number; // How long resolved metadata is cached
+}
+
 export interface StremioStream {
   infoHash?: string; // Required for torrents
+  fileIdx?: number; // Index of the file to play inside a multi-file torrent (0-based)
   mapIdx?: number; // For series episodes from same torrent file (0-based index)
   name?: string; // "Bitmagnet - 🧲 - Resolution" (Displayed in Stremio stream selection list)
   title?: string; // Multi-line rich description with emojis (Displayed as tooltip or details for the stream)
@@ -49,6 +85,8 @@ export interface StremioStream {
     bingeGroup?: string; // Groups episodes from same torrent for continuous playback
     countryWhitelist?: string[];
     notWebReady?: boolean; // If true, Stremio might try to open with external player directly
+    filename?: string; // Name of the file to be played, helps subtitle addons match
+    videoSize?: number; // Size of the video file in bytes, helps subtitle addons match
     // UHD?: boolean; // For 4K content, helps Stremio UI. Often inferred from title/resolution.
   };
   // Optional metadata, parsed if possible, used for sorting and display enrichment
@@ -56,6 +94,13 @@ export interface StremioStream {
   // Fields primarily for internal sorting before formatting for Stremio
   seeders?: number;
   size?: number; // in bytes
+  titleConfidence?: number; // 0-1, how well the release title matches the requested title (unset if unknown)
+  score?: ScoreBreakdown; // Set by scoreStreams (streamScoring.ts)
+  incompatibilities?: string[]; // What config.deviceProfile can't play, e.g. ["Dolby Vision", "TrueHD"] (deviceCompatibility.ts)
+  estimatedBitrateMbps?: number; // Playable size / runtime from metadata (sizeBounds.ts); unset without a runtime
+  sizeOutlier?: 'too small' | 'too large'; // Outside config.sizeBounds for its resolution (sizeBounds.ts)
+  releaseGroup?: string; // parsedMeta.releaseGroup under its canonical name from config.releaseGroups.aliases (releaseGroups.ts)
+  preferredReleaseGroup?: boolean; // releaseGroup is in config.releaseGroups.prefer (releaseGroups.ts)
 }
 
 export interface StremioStreamResponse {
@@ -81,6 +126,13 @@ export interface BitmagnetTorrent {
   filesStatus?: string; // e.g. "COMPLETED"
   filesCount?: number;
   tags?: string[]; // Generic tags from Bitmagnet
+  releaseGroup?: string; // As classified by Bitmagnet
+  // Content Bitmagnet linked this torrent to (torrentContent profile), e.g. contentSource "tmdb", contentId "603"
+  contentType?: string;
+  contentSource?: string;
+  contentId?: string;
+  contentTitle?: string;
+  contentExternalIds?: Record<string, string>; // e.g. { tmdb: "603", imdb: "tt0133093" }
   // Hypothetical structure for more detailed metadata directly from Bitmagnet
   metadata?: { 
     video_resolution?: string;
@@ -88,16 +140,22 @@ export interface BitmagnetTorrent {
     audio_codec?: string | string[];
     video_source?: string; // Potentially more specific than top-level 'source'
   };
-  files?: { // For series packs, to determine mapIdx
-      items: Array<{ path: string; size: number; fileIndex?: number }>; // fileIndex is 0-based from torrent
+  files?: { // For series packs, to determine fileIdx
+      items: BitmagnetTorrentFile[];
   };
   [key: string]: any; // Allow other properties that might come from Bitmagnet
 }
 
 
+export interface BitmagnetTorrentFile {
+  path: string; // Path inside the torrent, e.g. "Show.S01.1080p/Show.S01E05.1080p.mkv"
+  size: number;
+  fileIndex?: number; // 0-based index within the torrent, as Stremio's fileIdx expects
+}
+
 export interface BitmagnetSearchResponse {
   data?: {
-    // Adapt this to your Bitmagnet's GraphQL schema (e.g., searchContent, torrents, etc.)
+    // Generic/legacy profile shapes (hypothetical schemas)
     searchTorrents?: { 
       items: BitmagnetTorrent[];
       totalCount?: number;
@@ -106,25 +164,243 @@ export interface BitmagnetSearchResponse {
       items: BitmagnetTorrent[];
       count?: number; // Might be 'totalCount' or similar depending on schema
     };
-    // Add other potential top-level data structures from your schema if needed
+    searchTorrentFiles?: { items: Array<{ path: string; size: number; fileIndex?: number }> };
+    // Real Bitmagnet schema: torrentContent { search(input: ...) }, torrent { files(input: ...) }
+    torrent?: {
+      files?: {
+        items: Array<{ infoHash: string; index: number; path: string; size: number; fileType?: string | null }>;
+      };
+    };
+    torrentContent?: {
+      search?: {
+        items: BitmagnetTorrentContentItem[];
+        totalCount?: number;
+        hasNextPage?: boolean;
+      };
+    };
   };
   items?: BitmagnetTorrent[]; // Fallback if data is not nested under searchContent/searchTorrents
   errors?: Array<{ message: string; [key: string]: any }>; // Standard GraphQL errors
 }
 
+// A single item of Bitmagnet's `torrentContent.search` result (only the fields we request).
+export interface BitmagnetTorrentContentItem {
+  infoHash: string;
+  contentType?: string | null; // e.g. "movie", "tv_show"
+  title?: string | null;
+  seeders?: number | null;
+  leechers?: number | null;
+  publishedAt?: string | null;
+  videoResolution?: string | null; // e.g. "V1080p", "V2160p"
+  videoSource?: string | null; // e.g. "BluRay", "WEBDL", "WEBRip", "TV", "CAM"
+  videoCodec?: string | null; // e.g. "x264", "x265", "H264"
+  video3d?: string | null;
+  videoModifier?: string | null; // e.g. "REMUX"
+  releaseGroup?: string | null;
+  languages?: Array<{ id: string; name: string }> | null;
+  torrent?: {
+    infoHash: string;
+    name: string;
+    size?: number | null;
+    filesStatus?: string | null;
+    filesCount?: number | null;
+    tagNames?: string[] | null;
+  } | null;
+  content?: {
+    type?: string | null;
+    source?: string | null;
+    id?: string | null;
+    title?: string | null;
+    originalTitle?: string | null;
+    releaseDate?: string | null;
+    releaseYear?: number | null;
+    attributes?: Array<{ source: string; key: string; value: string }> | null;
+  } | null;
+}
+
+// One Bitmagnet instance in a federated setup.
+export interface BitmagnetEndpointConfig {
+  name?: string; // Used in logs and stats; defaults to the URL's host
+  url: string; // GraphQL endpoint
+  apiKey?: string;
+  schemaProfile?: BitmagnetSchemaProfileName; // Defaults to AddonConfig.bitmagnetSchemaProfile
+  timeoutMs?: number; // Per-request timeout, default 20s
+  priority?: number; // Higher wins when merged results carry equally rich metadata. Default 0
+}
+
+export interface BitmagnetEndpointStats {
+  name: string;
+  url: string;
+  requests: number;
+  failures: number;
+  avgLatencyMs?: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+  circuit: 'closed' | 'open' | 'half-open';
+}
+
+export interface BitmagnetResilienceConfig {
+  retries: number; // Extra attempts for transient HTTP/network errors
+  retryBaseDelayMs: number; // First backoff delay (doubles per retry, with jitter)
+  retryMaxDelayMs: number; // Cap for a single backoff delay
+  breakerFailureThreshold: number; // Consecutive failed queries that open the circuit
+  breakerCooldownMs: number; // How long to fail fast before probing Bitmagnet again
+}
+
+// How far a search pages through Bitmagnet results (see paginateBitmagnetSearch).
+export interface BitmagnetSearchBudget {
+  pageSize: number; // Results requested per page
+  maxResults: number; // Stop paging once this many results were collected (per query and endpoint)
+  timeBudgetMs: number; // No further pages are requested after this much time into a stream request
+  targetCandidates: number; // Stop early once this many results survive the stream filters
+}
+
+// Which GraphQL schema shape to speak when talking to Bitmagnet.
+// 'torrentContent' is the real Bitmagnet schema; 'generic' is the legacy hand-adaptable `searchContent` query.
+export type BitmagnetSchemaProfileName = 'torrentContent' | 'generic';
+
+// Reference to a content item in an external database, as Bitmagnet links torrents to content.
+export interface BitmagnetContentRef {
+  source: 'imdb' | 'tmdb' | string;
+  id: string; // e.g. "tt0133093" for imdb, "603" for tmdb
+}
+
+export interface BitmagnetSearchParams {
+  query: string;
+  year?: number;
+  limit: number;
+  contentType?: 'MOVIE' | 'SERIES' | string;
+  contentRef?: BitmagnetContentRef; // When set, only torrents linked to this content are wanted
+  page?: number; // 1-based page of `limit` results; 1 if unset
+  filters?: BitmagnetSearchFilters; // Applied server-side where the schema can express them
+}
+
+// Server-side narrowing derived from AddonConfig (see buildSearchFilters). Profiles apply whatever their
+// schema supports and ignore the rest; processStreamRequest's own filters still run on every result.
+export interface BitmagnetSearchFilters {
+  excludeResolutions?: string[]; // Our resolution terms (UPPERCASE), e.g. "480P", "SD"
+  excludeSources?: string[]; // Our low quality source terms (UPPERCASE), e.g. "CAM", "TS"
+  languages?: string[]; // ISO 639-1 codes, e.g. "en"
+}
+
+export interface BitmagnetSearchPage {
+  items: BitmagnetTorrent[];
+  totalCount?: number;
+  hasNextPage?: boolean;
+}
+
+// Translates search params into a GraphQL request and a GraphQL response back into BitmagnetTorrents.
+export interface BitmagnetSchemaProfile {
+  name: BitmagnetSchemaProfileName;
+  buildSearchRequest: (params: BitmagnetSearchParams) => { query: string; variables: Record<string, any> };
+  parseSearchResponse: (response: BitmagnetSearchResponse, params: BitmagnetSearchParams) => BitmagnetSearchPage;
+  // File listing of a single torrent (used to map episodes inside season packs)
+  buildFilesRequest: (infoHash: string, limit: number) => { query: string; variables: Record<string, any> };
+  parseFilesResponse: (response: BitmagnetSearchResponse) => BitmagnetTorrentFile[];
+}
+
+// The episode a series stream request asks for, in every numbering a release may use.
+export interface EpisodeTarget {
+  season: number;
+  episode: number;
+  absoluteEpisode?: number; // Anime absolute numbering, if a mapping is known
+  airDate?: string; // "YYYY-MM-DD", if the metadata provider knows it (daily shows)
+}
+
+// Inclusive range, e.g. seasons 1-3. A single value has start === end.
+export interface NumberRange {
+  start: number;
+  end: number;
+}
+
+export type HdrFormat = 'DV' | 'HDR10+' | 'HDR10' | 'HLG';
+
+export interface AudioTrack {
+  codec?: string; // Normalized: TRUEHD, DTS-HD, DTS, EAC3, AC3, AAC, MP3, OPUS, FLAC, PCM, VORBIS; unset for a bare "5.1"
+  channels?: string; // "2.0", "5.1", "7.1"
+  atmos?: boolean;
+}
+
+// Named regexes of the release name parser (REGEX_PATTERNS), loaded from src/rules/parserRules.json
+export type ParserPatternName =
+  | 'YEAR' | 'RESOLUTION' | 'QUALITY_SOURCE' | 'VIDEO_CODEC' | 'AUDIO_CODEC' | 'HDR' | 'AUDIO_TRACK' | 'AUDIO_CHANNELS'
+  | 'EDITION' | 'REMUX' | 'BIT_DEPTH' | 'THREE_D' | 'LANGUAGES' | 'SUBTITLES' | 'SEASON_EPISODE' | 'CROSS_EPISODE'
+  | 'SEASON_RANGE' | 'SEASON' | 'EPISODE' | 'ABSOLUTE_EPISODE' | 'ANIME_BATCH' | 'AIR_DATE' | 'COMPLETE_SERIES'
+  | 'RELEASE_GROUP' | 'SIZE';
+
+export interface ParserPatternRule {
+  pattern: string; // RegExp source; in LANGUAGES, {{LANGUAGE_TOKENS}} stands for the LANGUAGE_TABLE tokens
+  flags: string; // RegExp flags, e.g. "gi"
+  description?: string;
+}
+
+// Contents of a parser rules file. The version changes whenever pattern groups or semantics change, so overrides
+// written against an older layout are rejected instead of silently misparsing.
+export interface ParserRules {
+  version: number;
+  patterns: Record<ParserPatternName, ParserPatternRule>;
+  trashWords: string[]; // Whole words cleanTitle removes
+  trashPatterns: string[]; // RegExp sources cleanTitle removes
+  qualityRanks: Record<string, keyof typeof VideoQualityRank>; // QUALITY_RANK_MAP by rank name
+}
+
+// PARSER_RULES_FILE: the bundled rules' version plus whatever should change. Patterns and quality ranks replace
+// the bundled ones with the same key; trash lists replace the bundled lists.
+export type ParserRulesOverride = Pick<ParserRules, 'version'> & Partial<Omit<ParserRules, 'version' | 'patterns'>> & {
+  patterns?: Partial<Record<ParserPatternName, ParserPatternRule>>;
+};
+
+export interface CompiledParserRules {
+  patterns: Record<ParserPatternName, RegExp>;
+  trashTerms: RegExp[];
+  qualityRanks: Record<string, VideoQualityRank>;
+}
+
+// A language known to the parser and the config (see LANGUAGE_TABLE and utils/languages.ts)
+export interface LanguageInfo {
+  code: string; // ISO 639-1 ("en"), with a region for variants releases tell apart ("pt-BR"); ISO 639-3 if there's no 639-1 code ("yue")
+  iso6393: string; // ISO 639-3 ("eng")
+  iso6392b?: string; // Bibliographic ISO 639-2 code, where it differs from 639-3 ("fre", "ger")
+  name: string;
+  flag: string; // Emoji flag shown in stream titles
+  tokens: string[]; // How release names spell it, uppercase ("FRENCH", "VFF", "FRE")
+}
+
+// Burned into the video, separate tracks, or separate tracks in several languages
+export type SubtitleType = 'hardcoded' | 'soft' | 'multi';
+
+export interface SubtitleInfo {
+  languages: string[]; // LANGUAGE_TABLE codes, e.g. ["en"]; empty for a bare "Subbed"
+  type?: SubtitleType; // Unset when the release name doesn't tell (e.g. "ENGSUB")
+}
+
 export interface ParsedMetadata {
   originalTitle: string;
   cleanedTitle?: string; // Title after removing metadata tags
+  matchTitle?: string; // The release's own title for title matching: up to the S/E or episode token, and without cleanedTitle's fallback to the search title
   year?: number;
   resolution?: string; // e.g., 1080p, 720p, 2160p, SD
   qualitySource?: string; // e.g., BluRay, WEB-DL, BDRip, DVD, CAM, TS, SCR
   videoCodec?: string; // e.g., x264, x265, HEVC, AV1
   audioCodec?: string | string[]; // e.g., DTS, AC3, AAC, TrueHD, Atmos + channels (5.1, 7.1)
-  languages?: string[]; // e.g., ENG, FRA, SPA, Multi, Dual
-  isHDR?: boolean;
+  languages?: string[]; // Audio languages as LANGUAGE_TABLE codes ("en", "pt-BR"), or "multi"/"dual" for Multi/Dual Audio
+  subtitles?: SubtitleInfo; // Subtitles named in the title ("ENGSUB", "VOSTFR", "HC", "MultiSubs")
+  isHDR?: boolean; // Any HDR format; see hdrFormats for which
+  hdrFormats?: HdrFormat[]; // e.g. ["DV", "HDR10"] for a dual-layer release
   is3D?: boolean;
+  isRemux?: boolean; // Untouched disc video ("BluRay REMUX")
+  bitDepth?: number; // 8, 10 or 12, when stated ("10bit", "Hi10P")
+  edition?: string; // e.g. "Extended", "Director's Cut", "IMAX, Extended"
+  audioTracks?: AudioTrack[]; // Structured form of audioCodec, in title order
   releaseGroup?: string;
-  episodeInfo?: string; // e.g., S01E01, S01, E01-E03
+  seasonRange?: NumberRange; // Seasons covered: S02E05 -> 2-2, S01-S05 / "Season 1-5" -> 1-5
+  episodeRange?: NumberRange; // Episodes covered within a single season: S01E01-E03 -> 1-3; unset = whole season(s)
+  isCompleteSeries?: boolean; // "Complete Series", "All Seasons" without explicit season numbers
+  absoluteEpisodeRange?: NumberRange; // Anime absolute numbering: "Show - 137" -> 137-137, "Show - 01-12" -> 1-12
+  isBatch?: boolean; // Anime batch release ("Batch") without an explicit episode range
+  airDate?: string; // Daily shows: "Show.2024.03.14.Guest" -> "2024-03-14"
   rawSize?: string; // e.g., "1.2GB" as parsed from title
   calculatedSize?: number; // Size in bytes, either from Bitmagnet or calculated from rawSize
   seeders?: number; // From Bitmagnet if available, or parsed (less common from title)
@@ -150,18 +426,92 @@ export enum SortPreference {
   Seeders = 'seeders',
   PreferredLanguage = 'preferredLanguage',
   Quality = 'quality', // Based on VideoQualityRank and then qualitySortOrder strings
-  Size = 'size' // Can be 'asc' or 'desc' based on further config if needed
+  Size = 'size', // Can be 'asc' or 'desc' based on further config if needed
+  TitleMatch = 'titleMatch', // Title match confidence (see titleSimilarity.ts), best first
+}
+
+// Weights of the components of a stream's score (see streamScoring.ts). Every component is normalized to 0-1
+// and multiplied by its weight, so a weight is the most that component can add to the score.
+export interface ScoringWeights {
+  quality: number; // VideoQualityRank
+  seeders: number; // Log scale, saturating at SEEDERS_SCORE_SATURATION
+  language: number; // Preferred language match
+  size: number; // Relative to the largest result
+  codec: number; // Efficient codecs (AV1, HEVC) first
+  hdr: number;
+  releaseGroup: number;
+  titleConfidence: number; // Title match confidence (titleSimilarity.ts)
+}
+
+export type ScoringComponent = keyof ScoringWeights;
+
+export interface ScoreBreakdown {
+  total: number;
+  components: Record<ScoringComponent, number>; // Weighted contribution of each component to the total
+  penalty?: number; // Already subtracted from total (size outliers in 'penalize' mode)
+  bonus?: number; // Already added to total (releases by a preferred group)
+}
+
+export type DeviceProfileName = 'lg-webos' | 'android-tv' | 'web' | 'desktop';
+
+// What a Stremio client can play. Codec and format names are the normalized ones of deviceCompatibility.ts.
+export interface DeviceProfile {
+  label: string;
+  videoCodecs: string[]; // H264, HEVC, AV1, VP9, MPEG4
+  hdrFormats: string[]; // HDR10, HDR10+, DV, HLG; empty = SDR only
+  audioCodecs: string[]; // AAC, AC3, EAC3, DTS, DTS-HD, TRUEHD, MP3, OPUS, FLAC, PCM, VORBIS
+  maxResolution: number; // Vertical lines, e.g. 2160
+}
+
+// What to do with streams the device profile can't play: leave them out, or list them after the playable ones
+export type DeviceCompatibilityMode = 'drop' | 'deprioritize';
+
+export type ResolutionTier = '2160p' | '1080p' | '720p' | 'sd';
+
+// Plausible sizes for a resolution, per hour of runtime so they work for movies and episodes alike
+export interface SizeBounds {
+  minGBPerHour: number;
+  maxGBPerHour: number;
+}
+
+// What to do with streams outside their size bounds: leave them out, or cut their score
+export type SizeBoundsMode = 'drop' | 'penalize';
+
+// Release groups to keep, rank higher or hide (releaseGroups.ts). Names match case-insensitively, under any of
+// their aliases.
+export interface ReleaseGroupRules {
+  allow?: string[]; // If non-empty, only releases by these (or preferred) groups are kept; anonymous releases too are dropped
+  prefer?: string[]; // Trusted groups, ranked higher
+  block?: string[]; // Always dropped, e.g. known fake or re-encode groups
+  aliases?: Record<string, string[]>; // Canonical name -> other names of the group, e.g. { "FraMeSToR": ["FRMSTR"] }
 }
 
 export interface AddonConfig {
-  bitmagnetPublicGraphQLEndpoint: string;
-  preferredLanguage: string; // e.g., 'ENG'
+  bitmagnetPublicGraphQLEndpoint: string; // Single-instance setup; ignored when bitmagnetEndpoints is non-empty
+  bitmagnetSchemaProfile?: BitmagnetSchemaProfileName; // Defaults to 'torrentContent'
+  bitmagnetEndpoints?: BitmagnetEndpointConfig[]; // Federated setup: all endpoints are queried in parallel
+  metadataProvider?: MetadataProviderConfig; // Resolves IMDB IDs to titles/years; none if unset
+  bitmagnetResilience?: BitmagnetResilienceConfig; // Retry/circuit breaker tuning; defaults if unset
+  bitmagnetSearchBudget?: BitmagnetSearchBudget; // Pagination limits; defaults if unset
+  preferredLanguage: string; // e.g., 'ENG'; superseded by preferredLanguages when that is set
+  preferredLanguages?: string[]; // LANGUAGE_TABLE codes, most wanted first, e.g. ['pt-BR', 'en']
   // Array of quality strings (UPPERCASE), from best to worst.
   // Used as a tie-breaker if VideoQualityRank is the same.
   qualitySortOrder: string[]; 
   filterLowQuality: boolean; // Remove CAM, TS etc. if better qualities exist
+  restrictToPreferredLanguage?: boolean; // Only return releases in preferredLanguage (or multi-language ones)
+  preferredSubtitleLanguage?: string; // e.g., 'ENG'; defaults to the preferred languages
+  requireSubsWhenForeignAudio?: boolean; // Drop releases in none of the preferred languages unless subtitled in preferredSubtitleLanguage
   minSeeders: number;
-  sortPreference: SortPreference[]; // Defines the order of sorting criteria
+  minTitleSimilarity: number; // 0-1; releases whose title matches the requested one less well are dropped
+  scoringWeights?: ScoringWeights; // Streams are ranked by weighted score; defaults if unset
+  showScoreBreakdown?: boolean; // Add each stream's score breakdown to its title (for tuning the weights)
+  deviceProfile?: DeviceProfileName; // Client the streams are for; no compatibility checks if unset
+  deviceCompatibilityMode?: DeviceCompatibilityMode; // Defaults to 'deprioritize'
+  sizeBounds?: Record<ResolutionTier, SizeBounds>; // Defaults if unset
+  sizeBoundsMode?: SizeBoundsMode; // Defaults to 'penalize'
+  releaseGroups?: ReleaseGroupRules; // No release group filtering or preference if unset
+  sortPreference: SortPreference[]; // Tie-breakers for streams with equal scores, in order
 }
 
 // For categorizing fetched trackers
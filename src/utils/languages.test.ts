@@ -0,0 +1,53 @@
+import { AddonConfig, SortPreference } from '../types';
+import { findLanguage, languageLabel, matchesLanguage, preferredLanguageCodes, subtitleLanguageCodes } from './languages';
+
+const config: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: [],
+  filterLowQuality: false,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+describe('findLanguage', () => {
+  it('accepts ISO 639 codes, names and scene tokens in any case', () => {
+    expect(findLanguage('en')?.code).toBe('en');
+    expect(findLanguage('ENG')?.code).toBe('en');
+    expect(findLanguage('fre')?.code).toBe('fr');
+    expect(findLanguage('German')?.code).toBe('de');
+    expect(findLanguage('pt_br')?.code).toBe('pt-BR');
+    expect(findLanguage('Klingon')).toBeUndefined();
+  });
+});
+
+describe('matchesLanguage', () => {
+  it('matches a generic language with its regional variants, but not two variants', () => {
+    expect(matchesLanguage('pt-BR', 'pt')).toBe(true);
+    expect(matchesLanguage('pt', 'pt-BR')).toBe(true);
+    expect(matchesLanguage('pt-PT', 'pt-BR')).toBe(false);
+    expect(matchesLanguage('es', 'pt')).toBe(false);
+  });
+});
+
+describe('languageLabel', () => {
+  it('names languages and the multi-audio pseudo-codes', () => {
+    expect(languageLabel('multi')).toBe('Multi Audio');
+    expect(languageLabel('dual')).toBe('Dual Audio');
+    expect(languageLabel('fr')).toContain('French');
+    expect(languageLabel('xx')).toBe('xx');
+  });
+});
+
+describe('preferredLanguageCodes / subtitleLanguageCodes', () => {
+  it('prefers the ordered list over the single legacy language', () => {
+    expect(preferredLanguageCodes(config)).toEqual(['en']);
+    expect(preferredLanguageCodes({ ...config, preferredLanguages: ['pt-BR', 'ENG'] })).toEqual(['pt-BR', 'en']);
+  });
+
+  it('falls back to the preferred languages for subtitles', () => {
+    expect(subtitleLanguageCodes({ ...config, preferredLanguages: ['fr', 'en'] })).toEqual(['fr', 'en']);
+    expect(subtitleLanguageCodes({ ...config, preferredSubtitleLanguage: 'spa' })).toEqual(['es']);
+  });
+});
@@ -0,0 +1,51 @@
+import { AddonConfig, LanguageInfo } from '../types';
+import { LANGUAGE_TABLE } from '../constants';
+import { foldDiacritics } from './standardization';
+
+// Language codes. Parsed releases and the config identify languages by their LANGUAGE_TABLE code (ISO 639-1,
+// with a region for variants such as "pt-BR"). findLanguage accepts whatever users and release names write:
+// ISO 639-1/639-2/639-3 codes, English names, scene tokens ("VFF", "LATINO"), in any case and with "-", "_" or ".".
+
+// Pseudo-codes for releases tagged as having several audio tracks
+export const MULTI_AUDIO = 'multi';
+export const DUAL_AUDIO = 'dual';
+
+const lookupKey = (value: string): string => foldDiacritics(value).toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Earlier entries win, so the generic "Portuguese" owns "por" rather than one of its regional variants
+const LANGUAGES_BY_KEY = new Map<string, LanguageInfo>();
+for (const language of LANGUAGE_TABLE) {
+  const keys = [language.code, language.iso6393, language.iso6392b, language.name, ...language.tokens];
+  for (const key of keys) {
+    if (key && !LANGUAGES_BY_KEY.has(lookupKey(key))) LANGUAGES_BY_KEY.set(lookupKey(key), language);
+  }
+}
+
+export const findLanguage = (value: string): LanguageInfo | undefined => LANGUAGES_BY_KEY.get(lookupKey(value));
+
+// "pt-BR" -> "pt"
+export const baseLanguage = (code: string): string => code.split('-')[0];
+
+// Whether a release language satisfies a wanted one: the same code, or one is the generic form of the other
+// ("pt" and "pt-BR"). Two regional variants ("pt-BR", "pt-PT") don't match.
+export const matchesLanguage = (code: string, wanted: string): boolean =>
+  code === wanted || (baseLanguage(code) === baseLanguage(wanted) && (!code.includes('-') || !wanted.includes('-')));
+
+// "🇧🇷 Portuguese (Brazil)", "Multi Audio"; unknown codes as they are
+export const languageLabel = (code: string): string => {
+  if (code === MULTI_AUDIO) return 'Multi Audio';
+  if (code === DUAL_AUDIO) return 'Dual Audio';
+  const language = LANGUAGE_TABLE.find(entry => entry.code === code);
+  return language ? `${language.flag} ${language.name}` : code;
+};
+
+const toCodes = (values: string[]): string[] =>
+  Array.from(new Set(values.map(value => findLanguage(value)?.code).filter((code): code is string => !!code)));
+
+// The preferred languages in order: config.preferredLanguages, else the single config.preferredLanguage.
+export const preferredLanguageCodes = (config: AddonConfig): string[] =>
+  toCodes(config.preferredLanguages && config.preferredLanguages.length > 0 ? config.preferredLanguages : [config.preferredLanguage]);
+
+// Subtitle languages that count: config.preferredSubtitleLanguage, else any preferred language.
+export const subtitleLanguageCodes = (config: AddonConfig): string[] =>
+  config.preferredSubtitleLanguage ? toCodes([config.preferredSubtitleLanguage]) : preferredLanguageCodes(config);
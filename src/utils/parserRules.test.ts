@@ -0,0 +1,41 @@
+import { BUNDLED_PARSER_RULES } from '../constants';
+import { compileParserRules, mergeParserRules } from './parserRules';
+
+describe('mergeParserRules', () => {
+  it('replaces named patterns and lists, and adds quality ranks', () => {
+    const merged = mergeParserRules(BUNDLED_PARSER_RULES, {
+      version: BUNDLED_PARSER_RULES.version,
+      patterns: { RESOLUTION: { pattern: '\\b(1080p)\\b', flags: 'gi' } },
+      trashWords: ['FOO'],
+      qualityRanks: { FOO: 'SD' },
+    });
+    expect(merged.patterns.RESOLUTION.pattern).toBe('\\b(1080p)\\b');
+    expect(merged.patterns.YEAR).toBe(BUNDLED_PARSER_RULES.patterns.YEAR);
+    expect(merged.trashWords).toEqual(['FOO']);
+    expect(merged.trashPatterns).toBe(BUNDLED_PARSER_RULES.trashPatterns);
+    expect(merged.qualityRanks.FOO).toBe('SD');
+    expect(BUNDLED_PARSER_RULES.qualityRanks.FOO).toBeUndefined();
+  });
+
+  it('rejects overrides that do not fit the bundled rules', () => {
+    expect(() => mergeParserRules(BUNDLED_PARSER_RULES, { version: 1 })).toThrow('written for rules version 1');
+    expect(() => mergeParserRules(BUNDLED_PARSER_RULES, { version: BUNDLED_PARSER_RULES.version, patterns: { RESOLUTON: { pattern: 'x', flags: 'g' } } }))
+      .toThrow("unknown pattern 'RESOLUTON'");
+    expect(() => mergeParserRules(BUNDLED_PARSER_RULES, { version: BUNDLED_PARSER_RULES.version, trashWords: 'FOO' })).toThrow("'trashWords' must be an array");
+  });
+});
+
+describe('compileParserRules', () => {
+  it('expands the language tokens, longest first and with any separator for hyphens', () => {
+    const { patterns } = compileParserRules(BUNDLED_PARSER_RULES, ['ENG', 'ENGLISH', 'PT-BR']);
+    expect('Movie.ENGLISH.1080p'.match(patterns.LANGUAGES)).toEqual(['ENGLISH']);
+    expect('Movie.PT.BR.1080p'.match(patterns.LANGUAGES)).toEqual(['PT.BR']);
+  });
+
+  it('reports invalid regexes and rank names', () => {
+    const broken = { ...BUNDLED_PARSER_RULES, patterns: { ...BUNDLED_PARSER_RULES.patterns, YEAR: { pattern: '(', flags: 'g' } } };
+    expect(() => compileParserRules(broken, [])).toThrow("pattern 'YEAR'");
+    const badRank = { ...BUNDLED_PARSER_RULES, qualityRanks: { FOO: 'GREAT' } };
+    expect(() => compileParserRules(badRank as typeof BUNDLED_PARSER_RULES, [])).toThrow("quality rank 'GREAT' of 'FOO'");
+  });
+});
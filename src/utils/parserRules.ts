@@ -0,0 +1,70 @@
+import { CompiledParserRules, ParserPatternName, ParserRules, ParserRulesOverride, VideoQualityRank } from '../types';
+
+// Parser rules: the regexes, trash terms and quality ranks of the release name parser are data
+// (src/rules/parserRules.json), so they can be tuned, overridden per deployment (PARSER_RULES_FILE) and checked
+// against the regression corpus (npm run parser-corpus) without touching parser code.
+
+const LANGUAGE_TOKENS_PLACEHOLDER = '{{LANGUAGE_TOKENS}}';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Applies an override file's contents to `base`. Throws if the override doesn't fit: wrong version, unknown
+// pattern names (most likely typos), malformed entries.
+export const mergeParserRules = (base: ParserRules, override: unknown): ParserRules => {
+  if (!override || typeof override !== 'object') throw new Error('expected a JSON object');
+  const { version, patterns, trashWords, trashPatterns, qualityRanks } = override as ParserRulesOverride;
+  if (version !== base.version) {
+    throw new Error(`written for rules version ${version}, but the bundled rules are version ${base.version}`);
+  }
+  const merged: ParserRules = { ...base, patterns: { ...base.patterns }, qualityRanks: { ...base.qualityRanks } };
+  for (const [name, rule] of Object.entries(patterns || {})) {
+    if (!(name in base.patterns)) throw new Error(`unknown pattern '${name}'`);
+    if (!rule || typeof rule.pattern !== 'string' || typeof rule.flags !== 'string') {
+      throw new Error(`pattern '${name}' must have a string 'pattern' and 'flags'`);
+    }
+    merged.patterns[name as ParserPatternName] = rule;
+  }
+  if (trashWords !== undefined) {
+    if (!isStringArray(trashWords)) throw new Error("'trashWords' must be an array of strings");
+    merged.trashWords = trashWords;
+  }
+  if (trashPatterns !== undefined) {
+    if (!isStringArray(trashPatterns)) throw new Error("'trashPatterns' must be an array of strings");
+    merged.trashPatterns = trashPatterns;
+  }
+  Object.assign(merged.qualityRanks, qualityRanks || {});
+  return merged;
+};
+
+// Builds the RegExps and rank lookup. `languageTokens` fill {{LANGUAGE_TOKENS}}; longest first, so "ENGLISH" wins
+// over "ENG", and "PT-BR" also matches "PT.BR" and "PTBR". Throws on invalid regexes and unknown rank names.
+export const compileParserRules = (rules: ParserRules, languageTokens: string[]): CompiledParserRules => {
+  const tokenAlternation = [...languageTokens]
+    .sort((a, b) => b.length - a.length)
+    .map(token => token.replace(/-/g, '[\\s.-]?'))
+    .join('|');
+  const compile = (source: string, flags: string, what: string): RegExp => {
+    try {
+      return new RegExp(source.split(LANGUAGE_TOKENS_PLACEHOLDER).join(tokenAlternation), flags);
+    } catch (error) {
+      throw new Error(`${what}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const patterns = {} as Record<ParserPatternName, RegExp>;
+  for (const [name, rule] of Object.entries(rules.patterns)) {
+    patterns[name as ParserPatternName] = compile(rule.pattern, rule.flags, `pattern '${name}'`);
+  }
+  const trashTerms = [
+    ...rules.trashWords.map(word => compile(`\\b${word}\\b`, 'ig', `trash word '${word}'`)),
+    ...rules.trashPatterns.map(pattern => compile(pattern, 'ig', `trash pattern '${pattern}'`)),
+  ];
+  const qualityRanks: Record<string, VideoQualityRank> = {};
+  for (const [term, rankName] of Object.entries(rules.qualityRanks)) {
+    const rank = VideoQualityRank[rankName];
+    if (rank === undefined) throw new Error(`quality rank '${rankName}' of '${term}' is not a VideoQualityRank`);
+    qualityRanks[term] = rank;
+  }
+  return { patterns, trashTerms, qualityRanks };
+};
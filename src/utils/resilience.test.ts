@@ -0,0 +1,104 @@
+import { CircuitOpenError, createCircuitBreaker, withRetry } from './resilience';
+
+const retryOptions = { retries: 2, baseDelayMs: 0, maxDelayMs: 0, isRetryable: () => true };
+
+describe('withRetry', () => {
+  it('retries until the call succeeds', async () => {
+    const fn = jest.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+    await expect(withRetry(fn, { ...retryOptions, onRetry })).resolves.toBe('ok');
+    expect(fn.mock.calls).toEqual([[0], [1]]);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('timeout'));
+    await expect(withRetry(fn, retryOptions)).rejects.toThrow('timeout');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('bad query'));
+    await expect(withRetry(fn, { ...retryOptions, isRetryable: () => false })).rejects.toThrow('bad query');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at most the exponential cap before each retry', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const fn = jest.fn().mockRejectedValueOnce(new Error('a')).mockRejectedValueOnce(new Error('b')).mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+    const result = withRetry(fn, { retries: 2, baseDelayMs: 500, maxDelayMs: 800, isRetryable: () => true, onRetry });
+    await jest.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry.mock.calls.map(([, , delay]) => delay)).toEqual([500, 800]);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  const fail = () => Promise.reject(new Error('down'));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('opens after the threshold of consecutive failures and fails fast', async () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 2, cooldownMs: 1000 });
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.getState()).toBe('open');
+    const fn = jest.fn().mockResolvedValue('ok');
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('lets one trial call through after the cooldown and closes when it succeeds', async () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 1, cooldownMs: 1000 });
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    jest.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+    let finishTrial: (value: string) => void = () => undefined;
+    const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    await expect(breaker.execute(async () => 'other')).rejects.toBeInstanceOf(CircuitOpenError);
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens for a full cooldown when the trial call fails', async () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 1, cooldownMs: 1000 });
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    jest.advanceTimersByTime(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    jest.advanceTimersByTime(999);
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('does not count errors that are not failures of the upstream', async () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 1, cooldownMs: 1000, isFailure: error => (error as Error).message === 'down' });
+    await expect(breaker.execute(() => Promise.reject(new Error('bad query')))).rejects.toThrow('bad query');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('does not extend the cooldown for calls that fail after the circuit opened', async () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 1, cooldownMs: 1000 });
+    let failLate: (error: Error) => void = () => undefined;
+    const late = breaker.execute(() => new Promise((_, reject) => { failLate = reject; }));
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    jest.advanceTimersByTime(600);
+    failLate(new Error('down'));
+    await expect(late).rejects.toThrow('down');
+    jest.advanceTimersByTime(400);
+    expect(breaker.getState()).toBe('half-open');
+  });
+});
@@ -0,0 +1,98 @@
+// Retry with jittered exponential backoff, and a simple circuit breaker, for calls to flaky upstreams.
+
+export interface RetryOptions {
+  retries: number; // Additional attempts after the first one
+  baseDelayMs: number; // Delay before the first retry; doubles on each further retry
+  maxDelayMs: number; // Upper bound for a single delay
+  isRetryable: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long the circuit stays open before a trial call is let through
+  // Which errors count as failures of the upstream; others (e.g. a rejected query) are passed on without
+  // counting either way. Defaults to every error.
+  isFailure?: (error: unknown) => boolean;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreaker {
+  name: string;
+  execute: <T>(fn: () => Promise<T>) => Promise<T>;
+  getState: () => CircuitState;
+}
+
+// Thrown without calling the upstream while a circuit is open.
+export class CircuitOpenError extends Error {
+  constructor(public readonly circuitName: string, public readonly retryAt: number) {
+    super(`Circuit '${circuitName}' is open; failing fast until ${new Date(retryAt).toISOString()}.`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// "Full jitter": a random delay between 0 and the exponential cap, so synchronized clients spread out.
+const backoffDelay = (attempt: number, options: RetryOptions): number => {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * cap);
+};
+
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !options.isRetryable(error)) throw error;
+      const delay = backoffDelay(attempt + 1, options);
+      options.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+};
+
+export const createCircuitBreaker = (name: string, options: CircuitBreakerOptions): CircuitBreaker => {
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const getState = (): CircuitState => {
+    if (consecutiveFailures < options.failureThreshold) return 'closed';
+    return Date.now() - openedAt >= options.cooldownMs ? 'half-open' : 'open';
+  };
+
+  const execute = async <T>(fn: () => Promise<T>): Promise<T> => {
+    const state = getState();
+    // While half-open, exactly one trial call probes the upstream; everyone else keeps failing fast.
+    if (state === 'open' || (state === 'half-open' && trialInFlight)) {
+      throw new CircuitOpenError(name, openedAt + options.cooldownMs);
+    }
+    const isTrial = state === 'half-open';
+    if (isTrial) trialInFlight = true;
+    try {
+      const result = await fn();
+      if (consecutiveFailures >= options.failureThreshold) {
+        console.log(`[resilience] Circuit '${name}' closed after a successful trial call.`);
+      }
+      consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      if (options.isFailure && !options.isFailure(error)) throw error;
+      const wasClosed = consecutiveFailures < options.failureThreshold;
+      consecutiveFailures++;
+      // Only opening the circuit (or a failed trial) starts the cooldown: calls that were already in flight when
+      // it opened and fail afterwards mustn't push it back.
+      if ((wasClosed && consecutiveFailures >= options.failureThreshold) || isTrial) {
+        openedAt = Date.now();
+        console.warn(`[resilience] Circuit '${name}' open after ${consecutiveFailures} consecutive failures; failing fast for ${options.cooldownMs}ms.`);
+      }
+      throw error;
+    } finally {
+      if (isTrial) trialInFlight = false;
+    }
+  };
+
+  return { name, execute, getState };
+};
@@ -0,0 +1,61 @@
+import { foldDiacritics, generateSearchVariants, moveTrailingArticle, normalizeTitleForComparison, standardizeTitle, standardizeYear } from './standardization';
+
+describe('foldDiacritics', () => {
+  it('folds accents, full-width forms and ligatures, and keeps other scripts', () => {
+    expect(foldDiacritics('Amélie')).toBe('Amelie');
+    expect(foldDiacritics('ＡＫＩＲＡ')).toBe('AKIRA');
+    expect(foldDiacritics('Søren Kierkegaard')).toBe('Soren Kierkegaard');
+    expect(foldDiacritics('Straße')).toBe('Strasse');
+    expect(foldDiacritics('千と千尋')).toBe('千と千尋');
+  });
+});
+
+describe('moveTrailingArticle', () => {
+  it('moves a library-style article to the front', () => {
+    expect(moveTrailingArticle('Office, The')).toBe('The Office');
+    expect(moveTrailingArticle('Beautiful Mind, A')).toBe('A Beautiful Mind');
+    expect(moveTrailingArticle('Me, Myself & Irene')).toBe('Me, Myself & Irene');
+  });
+});
+
+describe('standardizeTitle', () => {
+  it('normalizes separators, "&" and trailing years and episode markers', () => {
+    expect(standardizeTitle('Fast & Furious')).toBe('Fast and Furious');
+    expect(standardizeTitle('Some.Show_(US) S01E01')).toBe('Some Show US');
+    expect(standardizeTitle('Movie Title 2019')).toBe('Movie Title');
+    expect(standardizeTitle('Blade Runner Final Cut')).toBe('Blade Runner');
+  });
+});
+
+describe('normalizeTitleForComparison', () => {
+  it('gives the same key to differently written forms of a title', () => {
+    expect(normalizeTitleForComparison('Rocky II')).toBe(normalizeTitleForComparison('Rocky 2'));
+    expect(normalizeTitleForComparison('Amélie')).toBe(normalizeTitleForComparison('AMELIE'));
+    expect(normalizeTitleForComparison('Office, The')).toBe(normalizeTitleForComparison('The Office'));
+    expect(normalizeTitleForComparison('Tom & Jerry')).toBe(normalizeTitleForComparison('Tom and Jerry'));
+    expect(normalizeTitleForComparison('Star Wars: Episode I')).toBe('star wars episode 1');
+  });
+
+  it('leaves lone letters that are no sequel numbers alone', () => {
+    expect(normalizeTitleForComparison('I, Robot')).toBe('i robot');
+    expect(normalizeTitleForComparison('Malcolm X')).toBe('malcolm x');
+  });
+});
+
+describe('generateSearchVariants', () => {
+  it('offers the other numeral style and the title without its article', () => {
+    expect(generateSearchVariants('Rocky II', 3)).toEqual(['Rocky 2']);
+    expect(generateSearchVariants('The Dark Knight', 3)).toEqual(['Dark Knight']);
+    expect(generateSearchVariants('The Office', 3)).toEqual([]);
+    expect(generateSearchVariants('The Godfather Part II', 1)).toEqual(['The Godfather Part 2']);
+  });
+});
+
+describe('standardizeYear', () => {
+  it('finds a plausible year in strings and numbers', () => {
+    expect(standardizeYear('2019-05-30')).toBe(2019);
+    expect(standardizeYear(1999)).toBe(1999);
+    expect(standardizeYear('1850')).toBeUndefined();
+    expect(standardizeYear(undefined)).toBeUndefined();
+  });
+});
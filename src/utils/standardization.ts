@@ -1,15 +1,100 @@
 // Basic standardization for titles and years.
+//
+// Titles from metadata providers and release names disagree in predictable ways:
+// - accents and full-width characters ("Amélie", "ＡＫＩＲＡ") vs plain ASCII ("Amelie", "AKIRA")
+// - roman vs arabic sequel numbers ("Rocky II" vs "Rocky 2")
+// - library-style trailing articles ("Office, The" vs "The Office")
+// - "&", "+" and "and"
+// standardizeTitle produces the search title, normalizeTitleForComparison a key in which all of these agree,
+// and generateSearchVariants the alternative spellings worth an extra search.
+
+// Letters NFKD doesn't decompose into a base letter + combining mark
+const UNDECOMPOSABLE_LETTERS: Record<string, string> = {
+  'ø': 'o', 'Ø': 'O', 'æ': 'ae', 'Æ': 'Ae', 'œ': 'oe', 'Œ': 'Oe', 'ß': 'ss',
+  'đ': 'd', 'Đ': 'D', 'ł': 'l', 'Ł': 'L', 'þ': 'th', 'Þ': 'Th', 'ð': 'd', 'Ð': 'D',
+};
+
+// CJK punctuation that NFKD leaves alone (full-width ASCII forms like "！" and "：" are folded by NFKD itself)
+const CJK_PUNCTUATION = /[\u3000-\u303F\u30FB\uFF5F-\uFF65]/g;
+
+// Accents, full-width forms and ligatures folded to their plain equivalents; non-Latin scripts are kept.
+export const foldDiacritics = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[øØæÆœŒßđĐłŁþÞðÐ]/g, letter => UNDECOMPOSABLE_LETTERS[letter])
+    .replace(CJK_PUNCTUATION, ' ');
+
+const TRAILING_ARTICLE = /^(.+?),\s*(The|A|An)$/i;
+
+// "Office, The" -> "The Office"
+export const moveTrailingArticle = (title: string): string => {
+  const match = title.trim().match(TRAILING_ARTICLE);
+  return match ? `${match[2]} ${match[1]}` : title;
+};
+
+const LEADING_ARTICLE = /^(?:The|A|An)\s+(?=\S)/i;
+
+// Roman numerals are only converted up to 39 (I-XXXIX); beyond that, "LI" or "MIX" are more likely words.
+const MAX_ROMAN_NUMERAL = 39;
+
+const toRoman = (value: number): string =>
+  'X'.repeat(Math.floor(value / 10)) + ['', 'I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX'][value % 10];
+
+const fromRoman = (token: string): number | undefined => {
+  const upper = token.toUpperCase();
+  if (!/^[IVX]+$/.test(upper)) return undefined;
+  const values: Record<string, number> = { I: 1, V: 5, X: 10 };
+  let total = 0;
+  for (let i = 0; i < upper.length; i++) {
+    const current = values[upper[i]];
+    const next = values[upper[i + 1]] || 0;
+    total += current < next ? -current : current;
+  }
+  // Round trip rejects non-canonical forms such as "IIII" or "VX"
+  return total >= 1 && total <= MAX_ROMAN_NUMERAL && toRoman(total) === upper ? total : undefined;
+};
+
+// A single "I", "V" or "X" is only a numeral after a sequel word ("Episode I", not "I, Robot" or "Malcolm X").
+const SEQUEL_MARKER = '(?:Part|Chapter|Episode|Volume|Vol\\.?|Book)';
+const ROMAN_TOKEN = new RegExp(`\\b(?:${SEQUEL_MARKER}\\s+)?([IVX]+)\\b`, 'gi');
+
+// Every roman numeral token -> arabic. Used for comparison keys, where both sides get the same treatment.
+const romanNumeralsToArabic = (title: string): string =>
+  title.replace(ROMAN_TOKEN, (whole, numeral: string) => {
+    if (numeral.length === 1 && whole === numeral) return whole;
+    const value = fromRoman(numeral);
+    return value !== undefined ? whole.slice(0, whole.length - numeral.length) + value : whole;
+  });
+
+// Sequel number after a sequel word or at the end of the title: "Rocky II" <-> "Rocky 2",
+// "Harry Potter and the Deathly Hallows Part 1" <-> "... Part I". Other numbers ("2 Fast 2 Furious") stay.
+const MARKED_SEQUEL_NUMBER = new RegExp(`(\\b${SEQUEL_MARKER}\\s+)(\\d{1,2}|[IVX]+)\\b`, 'i');
+const TRAILING_SEQUEL_NUMBER = /(\s)(\d{1,2}|[IVX]{2,})(?=\s*$|\s*:)/i; // A trailing "X" or "V" is rarely a numeral ("Malcolm X")
+
+const swapSequelNumeral = (title: string): string => {
+  const swap = (minimum: number) => (whole: string, prefix: string, number: string): string => {
+    if (/^\d+$/.test(number)) {
+      const value = parseInt(number, 10);
+      return value >= minimum && value <= MAX_ROMAN_NUMERAL ? prefix + toRoman(value) : whole;
+    }
+    const value = fromRoman(number);
+    return value !== undefined ? prefix + value : whole;
+  };
+  if (MARKED_SEQUEL_NUMBER.test(title)) return title.replace(MARKED_SEQUEL_NUMBER, swap(1));
+  return title.replace(TRAILING_SEQUEL_NUMBER, swap(2)); // "Movie 1" isn't a sequel
+};
 
 export const standardizeTitle = (title: string): string => {
   if (!title) return '';
   
-  let standardized = title;
+  let standardized = moveTrailingArticle(foldDiacritics(title));
 
   // Normalize case for consistent processing (e.g., to handle "And" vs "and")
   // standardized = standardized.toLowerCase(); // Optional: do this early if it helps later regexes
 
-  // Replace various forms of "and" / "&" with a standard "and"
-  standardized = standardized.replace(/\s+&\s+/g, ' and ');
+  // Replace various forms of "and" / "&" / "+" with a standard "and"
+  standardized = standardized.replace(/\s+[&+]\s+/g, ' and ');
   standardized = standardized.replace(/\s+and\s+/gi, ' and '); // Case insensitive "and"
 
   // Remove common punctuation used as separators, then normalize spaces
@@ -41,6 +126,34 @@ export const standardizeTitle = (title: string): string => {
   return standardized.trim();
 };
 
+// Case, accent, punctuation, article placement, numeral style and "&"/"and" insensitive form of a title.
+// Two titles meant to be the same should produce the same key; used for title match confidence.
+export const normalizeTitleForComparison = (title: string): string =>
+  romanNumeralsToArabic(moveTrailingArticle(foldDiacritics(title)))
+    .toLowerCase()
+    .replace(/[&+]/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Alternative spellings of an already standardized title that releases commonly use, most useful first:
+// the other sequel numeral style, then the title without its leading article. Excludes the title itself.
+export const generateSearchVariants = (standardizedTitle: string, maxVariants: number): string[] => {
+  const variants = [swapSequelNumeral(standardizedTitle)];
+  // A bare "Office" would match far too much: only drop the article when at least two words remain
+  const withoutArticle = standardizedTitle.replace(LEADING_ARTICLE, '');
+  if (withoutArticle.includes(' ')) variants.push(withoutArticle);
+
+  const seen = new Set([standardizedTitle.toLowerCase()]);
+  const result: string[] = [];
+  for (const variant of variants) {
+    const key = variant.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(variant);
+  }
+  return result.slice(0, maxVariants);
+};
+
 export const standardizeYear = (yearInput?: string | number): number | undefined => {
   if (yearInput === undefined || yearInput === null) return undefined;
   
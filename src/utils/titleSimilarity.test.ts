@@ -0,0 +1,66 @@
+import { AddonConfig, SortPreference } from '../types';
+import { parseTorrentTitle } from '../services/metadataParser';
+import { preferredLanguageMatch } from '../services/streamScoring';
+import { titleMatchConfidence, tokenContainment, TitleMatchTarget } from './titleSimilarity';
+
+const MIN_TITLE_SIMILARITY = 0.6; // Server default
+
+const target = (titles: string[], year?: number, checkYear = false): TitleMatchTarget => ({ titles, year, checkYear, yearTolerance: 1 });
+
+describe('tokenContainment', () => {
+  it('counts common words in order, relative to the longer title', () => {
+    expect(tokenContainment('dune', 'dune')).toBe(1);
+    expect(tokenContainment('dune drifter', 'dune')).toBe(0.5);
+    expect(tokenContainment('dune part two', 'dune')).toBeCloseTo(1 / 3);
+    expect(tokenContainment('', 'dune')).toBe(0);
+  });
+});
+
+describe('titleMatchConfidence', () => {
+  it('matches any of the target titles, whatever the punctuation', () => {
+    expect(titleMatchConfidence('Amélie', 2001, target(['Amelie', 'Le Fabuleux Destin d\'Amélie Poulain']))).toBe(1);
+    expect(titleMatchConfidence('Dune Drifter', 2023, target(['Dune']))).toBeLessThan(MIN_TITLE_SIMILARITY);
+  });
+
+  it('halves the confidence of a movie from another year', () => {
+    expect(titleMatchConfidence('Dune', 1984, target(['Dune'], 2021, true))).toBe(0.5);
+    expect(titleMatchConfidence('Dune', 2022, target(['Dune'], 2021, true))).toBe(1);
+  });
+
+  // Titles starting with a language name used to lose it to the audio language tags, and fell below the threshold
+  it.each([
+    ['English.Teacher.S01E01.1080p.WEB.h264-ETHEL', 'English Teacher'],
+    ['Hindi.Medium.2017.1080p.NF.WEB-DL.x264', 'Hindi Medium'],
+    ['The.Spanish.Princess.S01E01.1080p.WEB.h264', 'The Spanish Princess'],
+    ['The.Italian.Job.2003.1080p.BluRay.x264', 'The Italian Job'],
+  ])('keeps language words that are part of the title: %s', (release, title) => {
+    const parsed = parseTorrentTitle(release);
+    expect(titleMatchConfidence(parsed.matchTitle ?? release, parsed.year, target([title]))).toBe(1);
+    expect(parsed.languages ?? []).toEqual([]);
+  });
+});
+
+describe('title words in the language filter', () => {
+  const config: AddonConfig = {
+    bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+    preferredLanguage: 'ENG',
+    preferredLanguages: ['en'],
+    restrictToPreferredLanguage: true,
+    qualitySortOrder: [],
+    filterLowQuality: false,
+    minSeeders: 0,
+    minTitleSimilarity: MIN_TITLE_SIMILARITY,
+    sortPreference: [SortPreference.Seeders],
+  };
+
+  it('treats a language-named title without language tags as an untagged (English) release', () => {
+    const stream = { infoHash: 'abc', parsedMeta: parseTorrentTitle('Hindi.Medium.2017.1080p.NF.WEB-DL.x264') };
+    expect(preferredLanguageMatch(stream, config)).toBeGreaterThan(0);
+  });
+
+  it('still reads a language tag after the title', () => {
+    const stream = { infoHash: 'abc', parsedMeta: parseTorrentTitle('Hindi.Medium.2017.HINDI.1080p.NF.WEB-DL.x264') };
+    expect(stream.parsedMeta.matchTitle).toBe('Hindi Medium');
+    expect(preferredLanguageMatch(stream, config)).toBe(0);
+  });
+});
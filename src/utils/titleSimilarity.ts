@@ -0,0 +1,47 @@
+// Title match confidence: how likely a release is of the requested movie/series, judging by its title
+// (and year, for movies). Used to drop "Dune Drifter" when "Dune" was asked for.
+
+import { normalizeTitleForComparison } from './standardization';
+
+// Share of words the two titles have in common, in the same order, relative to the longer title: 1 for the same
+// words, 0 for nothing in common. Words on either side lower it, which is what separates "Dune" from "Dune Drifter"
+// (0.5) and "Dune Part Two" (0.33), while a differently punctuated or accented title still matches fully.
+export const tokenContainment = (a: string, b: string): number => {
+  const tokensA = a.split(' ').filter(Boolean);
+  const tokensB = b.split(' ').filter(Boolean);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  let common = 0;
+  let next = 0; // Index in tokensA after the previous common word
+  for (const token of tokensB) {
+    const index = tokensA.indexOf(token, next);
+    if (index >= 0) {
+      common++;
+      next = index + 1;
+    }
+  }
+  return common / Math.max(tokensA.length, tokensB.length);
+};
+
+export interface TitleMatchTarget {
+  titles: string[]; // Requested title first, then original title and aliases
+  year?: number;
+  checkYear: boolean; // Movies: a release year outside the tolerance halves the confidence
+  yearTolerance: number;
+}
+
+// Confidence in [0, 1] that a release titled `releaseTitle` (released `releaseYear`) is the target. `releaseTitle`
+// should be the release's own title only (ParsedMetadata.matchTitle), without episode names or the search title.
+export const titleMatchConfidence = (releaseTitle: string, releaseYear: number | undefined, target: TitleMatchTarget): number => {
+  const release = normalizeTitleForComparison(releaseTitle);
+  if (!release) return 0;
+  let best = 0;
+  for (const title of target.titles) {
+    const normalized = normalizeTitleForComparison(title);
+    if (normalized) best = Math.max(best, tokenContainment(release, normalized));
+    if (best === 1) break;
+  }
+  if (target.checkYear && target.year && releaseYear && Math.abs(releaseYear - target.year) > target.yearTolerance) {
+    best /= 2; // Same title, different year: most likely a remake or an unrelated namesake
+  }
+  return best;
+};
@@ -0,0 +1,106 @@
+import { AddonConfig, SortPreference } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, DEFAULT_SIZE_BOUNDS } from '../constants';
+import { decodeUserConfig, encodeUserConfig, mergeUserConfig, validateUserConfig } from './userConfig';
+
+const serverDefaults: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  bitmagnetEndpoints: [{ name: 'main', url: 'http://bitmagnet:3333/graphql' }],
+  preferredLanguage: 'ENG',
+  preferredLanguages: ['en'],
+  qualitySortOrder: ['2160P', '1080P'],
+  filterLowQuality: true,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders],
+};
+
+const encodeRaw = (value: unknown): string => Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+
+describe('encodeUserConfig / decodeUserConfig', () => {
+  it('round-trips a valid config', () => {
+    const config = { preferredLanguages: ['pt-BR', 'en'], minSeeders: 5, filterLowQuality: false, sortPreference: [SortPreference.Quality] };
+    expect(decodeUserConfig(encodeUserConfig(config))).toEqual(config);
+  });
+
+  it('produces a URL-safe path segment', () => {
+    expect(encodeUserConfig({ releaseGroups: { prefer: ['FLUX?', 'NTb/>'] } })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects malformed segments', () => {
+    expect(() => decodeUserConfig('')).toThrow('malformed');
+    expect(() => decodeUserConfig('not base64!')).toThrow('malformed');
+    expect(() => decodeUserConfig(Buffer.from('{not json').toString('base64url'))).toThrow('not valid base64url-encoded JSON');
+    expect(() => decodeUserConfig(encodeRaw([1, 2]))).toThrow('expected a JSON object');
+  });
+
+  it('rejects configs longer than an install link may be, when encoding and when decoding', () => {
+    // Every list within its limits, but multi-byte characters take three bytes each before base64
+    const tooLong = { qualitySortOrder: Array.from({ length: 32 }, () => '日'.repeat(32)) };
+    expect(() => encodeUserConfig(tooLong)).toThrow('too long');
+    expect(() => decodeUserConfig('a'.repeat(5000))).toThrow('too long');
+  });
+});
+
+describe('validateUserConfig', () => {
+  it('drops unknown keys and server-only settings', () => {
+    expect(validateUserConfig({ minSeeders: 3, bitmagnetPublicGraphQLEndpoint: 'http://evil', futureOption: true })).toEqual({ minSeeders: 3 });
+  });
+
+  it('normalizes language names and codes, without duplicates', () => {
+    expect(validateUserConfig({ preferredLanguages: ['Portuguese (Brazil)', 'ENG', 'en'] }).preferredLanguages).toEqual(['pt-BR', 'en']);
+    expect(() => validateUserConfig({ preferredLanguages: ['Klingon'] })).toThrow("'preferredLanguages' must be a known language");
+  });
+
+  it('checks types and ranges', () => {
+    expect(() => validateUserConfig({ minSeeders: -1 })).toThrow("'minSeeders' must be an integer");
+    expect(() => validateUserConfig({ minSeeders: 1.5 })).toThrow("'minSeeders' must be an integer");
+    expect(() => validateUserConfig({ minTitleSimilarity: 2 })).toThrow("'minTitleSimilarity' must be a number between 0 and 1");
+    expect(() => validateUserConfig({ filterLowQuality: 'yes' })).toThrow("'filterLowQuality' must be a boolean");
+    expect(() => validateUserConfig({ sortPreference: ['seeders', 'random'] })).toThrow('unknown sortPreference value(s) random');
+    expect(() => validateUserConfig({ deviceProfile: 'toaster' })).toThrow("'deviceProfile' must be one of");
+  });
+
+  it('requires complete scoring weights', () => {
+    expect(validateUserConfig({ scoringWeights: DEFAULT_SCORING_WEIGHTS }).scoringWeights).toEqual(DEFAULT_SCORING_WEIGHTS);
+    expect(() => validateUserConfig({ scoringWeights: { quality: 10 } })).toThrow("'scoringWeights.seeders'");
+  });
+
+  it('requires complete size bounds with min <= max', () => {
+    expect(validateUserConfig({ sizeBounds: DEFAULT_SIZE_BOUNDS }).sizeBounds).toEqual(DEFAULT_SIZE_BOUNDS);
+    expect(() => validateUserConfig({ sizeBounds: { ...DEFAULT_SIZE_BOUNDS, '720p': 5 } })).toThrow("'sizeBounds.720p' must be an object");
+    expect(() => validateUserConfig({ sizeBounds: { ...DEFAULT_SIZE_BOUNDS, sd: { minGBPerHour: 3, maxGBPerHour: 1 } } }))
+      .toThrow("'sizeBounds.sd.maxGBPerHour' must be a number between 3");
+  });
+
+  it('validates release group lists and aliases', () => {
+    expect(validateUserConfig({ releaseGroups: { prefer: [' FLUX '], aliases: { FLUX: ['Flux-Team'] } } }).releaseGroups)
+      .toEqual({ prefer: ['FLUX'], aliases: { FLUX: ['Flux-Team'] } });
+    expect(validateUserConfig({ releaseGroups: {} }).releaseGroups).toEqual({});
+    expect(() => validateUserConfig({ releaseGroups: { block: Array.from({ length: 13 }, (_, i) => `G${i}`) } })).toThrow('at most 12 entries');
+    expect(() => validateUserConfig({ releaseGroups: { block: ['A'.repeat(21)] } })).toThrow('at most 20 characters');
+    expect(() => validateUserConfig({ releaseGroups: { aliases: ['FLUX'] } })).toThrow("'releaseGroups.aliases' must be an object");
+  });
+});
+
+describe('mergeUserConfig', () => {
+  it('returns the server defaults without a user config', () => {
+    expect(mergeUserConfig(serverDefaults)).toBe(serverDefaults);
+  });
+
+  it('overlays only the keys the user set', () => {
+    const merged = mergeUserConfig(serverDefaults, { minSeeders: 10, filterLowQuality: false });
+    expect(merged).toEqual({ ...serverDefaults, minSeeders: 10, filterLowQuality: false });
+    expect(serverDefaults.minSeeders).toBe(0);
+  });
+
+  it("lets an older link's single preferredLanguage replace the server's preferredLanguages", () => {
+    const merged = mergeUserConfig(serverDefaults, { preferredLanguage: 'FRE' });
+    expect(merged.preferredLanguage).toBe('FRE');
+    expect(merged.preferredLanguages).toBeUndefined();
+  });
+
+  it('keeps server-only settings even when the decoded config names them', () => {
+    const merged = mergeUserConfig(serverDefaults, decodeUserConfig(encodeRaw({ bitmagnetEndpoints: [{ name: 'x', url: 'http://evil' }] })));
+    expect(merged.bitmagnetEndpoints).toEqual(serverDefaults.bitmagnetEndpoints);
+  });
+});
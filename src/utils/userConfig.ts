@@ -0,0 +1,222 @@
+// Encoding, decoding and validation of per-user configuration blobs.
+// Stremio installs configurable addons from URLs like `/<config>/manifest.json`, where `<config>`
+// is an opaque path segment. We use base64url-encoded JSON so the blob survives URL handling untouched.
+
+import { AddonConfig, DeviceCompatibilityMode, DeviceProfileName, ReleaseGroupRules, ResolutionTier, ScoringWeights, SizeBounds, SizeBoundsMode, SortPreference } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, DEFAULT_SIZE_BOUNDS, DEVICE_PROFILES } from '../constants';
+import { findLanguage } from './languages';
+
+// Subset of AddonConfig a user may override from the install URL.
+// Server-level settings (e.g. the Bitmagnet endpoint) are deliberately excluded so a shared
+// instance can't be pointed at arbitrary hosts by whoever crafts an install link.
+export type UserConfig = Partial<Pick<AddonConfig,
+  'preferredLanguage' | 'preferredLanguages' | 'qualitySortOrder' | 'filterLowQuality' | 'minSeeders' | 'sortPreference' |
+  'restrictToPreferredLanguage' | 'preferredSubtitleLanguage' | 'requireSubsWhenForeignAudio' | 'minTitleSimilarity' | 'scoringWeights' | 'showScoreBreakdown' |
+  'deviceProfile' | 'deviceCompatibilityMode' | 'sizeBounds' | 'sizeBoundsMode' | 'releaseGroups'
+>>;
+
+const MAX_ENCODED_CONFIG_LENGTH = 4096; // Guard against absurdly long path segments
+const SORT_PREFERENCE_VALUES = Object.values(SortPreference) as string[];
+const SCORING_COMPONENTS = Object.keys(DEFAULT_SCORING_WEIGHTS) as Array<keyof ScoringWeights>;
+const MAX_SCORING_WEIGHT = 1000;
+const DEVICE_PROFILE_NAMES = Object.keys(DEVICE_PROFILES);
+const DEVICE_COMPATIBILITY_MODES: DeviceCompatibilityMode[] = ['drop', 'deprioritize'];
+const RESOLUTION_TIERS = Object.keys(DEFAULT_SIZE_BOUNDS) as ResolutionTier[];
+const SIZE_BOUNDS_MODES: SizeBoundsMode[] = ['drop', 'penalize'];
+const MAX_GB_PER_HOUR = 1000;
+const RELEASE_GROUP_LISTS = ['allow', 'prefer', 'block'] as const;
+// Sized so that full lists still fit MAX_ENCODED_CONFIG_LENGTH next to every other setting
+const MAX_RELEASE_GROUPS = 12; // Per list
+const MAX_RELEASE_GROUP_ALIASES = 6; // Groups with aliases
+const MAX_ALIASES_PER_RELEASE_GROUP = 4;
+const MAX_RELEASE_GROUP_NAME_LENGTH = 20;
+
+const expectString = (key: string, value: unknown, maxLength: number = 32): string => {
+  if (typeof value !== 'string' || value.trim() === '' || value.length > maxLength) {
+    throw new Error(`Invalid config: '${key}' must be a non-empty string of at most ${maxLength} characters.`);
+  }
+  return value.trim();
+};
+
+const expectStringArray = (key: string, value: unknown, maxItems: number = 32, maxLength?: number): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > maxItems) {
+    throw new Error(`Invalid config: '${key}' must be a non-empty array of at most ${maxItems} entries.`);
+  }
+  return value.map(item => expectString(key, item, maxLength));
+};
+
+const expectBoolean = (key: string, value: unknown): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new Error(`Invalid config: '${key}' must be a boolean.`);
+  }
+  return value;
+};
+
+const expectInteger = (key: string, value: unknown, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Invalid config: '${key}' must be an integer between ${min} and ${max}.`);
+  }
+  return value;
+};
+
+const expectOneOf = <T extends string>(key: string, value: unknown, allowed: readonly string[]): T => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new Error(`Invalid config: '${key}' must be one of ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const expectNumber = (key: string, value: unknown, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`Invalid config: '${key}' must be a number between ${min} and ${max}.`);
+  }
+  return value;
+};
+
+// Any spelling findLanguage knows, normalized to the LANGUAGE_TABLE code
+const expectLanguageCode = (key: string, value: unknown): string => {
+  const language = findLanguage(expectString(key, value));
+  if (!language) {
+    throw new Error(`Invalid config: '${key}' must be a known language code or name, got '${value}'.`);
+  }
+  return language.code;
+};
+
+// One validator per configurable key. Each returns the normalized value or throws.
+const USER_CONFIG_VALIDATORS: { [K in keyof Required<UserConfig>]: (value: unknown) => UserConfig[K] } = {
+  preferredLanguage: (value) => expectString('preferredLanguage', value).toUpperCase(),
+  preferredLanguages: (value) => Array.from(new Set(
+    expectStringArray('preferredLanguages', value, 8).map(item => expectLanguageCode('preferredLanguages', item)))),
+  qualitySortOrder: (value) => expectStringArray('qualitySortOrder', value).map(q => q.toUpperCase()),
+  filterLowQuality: (value) => expectBoolean('filterLowQuality', value),
+  restrictToPreferredLanguage: (value) => expectBoolean('restrictToPreferredLanguage', value),
+  preferredSubtitleLanguage: (value) => expectLanguageCode('preferredSubtitleLanguage', value),
+  requireSubsWhenForeignAudio: (value) => expectBoolean('requireSubsWhenForeignAudio', value),
+  minSeeders: (value) => expectInteger('minSeeders', value, 0, 100000),
+  minTitleSimilarity: (value) => expectNumber('minTitleSimilarity', value, 0, 1),
+  showScoreBreakdown: (value) => expectBoolean('showScoreBreakdown', value),
+  // Must be complete: it replaces the server's weights as a whole
+  scoringWeights: (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Invalid config: 'scoringWeights' must be an object with the keys ${SCORING_COMPONENTS.join(', ')}.`);
+    }
+    const weights = {} as ScoringWeights;
+    for (const component of SCORING_COMPONENTS) {
+      weights[component] = expectNumber(`scoringWeights.${component}`, (value as Record<string, unknown>)[component], 0, MAX_SCORING_WEIGHT);
+    }
+    return weights;
+  },
+  deviceProfile: (value) => expectOneOf<DeviceProfileName>('deviceProfile', value, DEVICE_PROFILE_NAMES),
+  deviceCompatibilityMode: (value) => expectOneOf<DeviceCompatibilityMode>('deviceCompatibilityMode', value, DEVICE_COMPATIBILITY_MODES),
+  // Must be complete, like scoringWeights
+  sizeBounds: (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Invalid config: 'sizeBounds' must be an object with the keys ${RESOLUTION_TIERS.join(', ')}.`);
+    }
+    const bounds = {} as Record<ResolutionTier, SizeBounds>;
+    for (const tier of RESOLUTION_TIERS) {
+      const raw = (value as Record<string, unknown>)[tier];
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error(`Invalid config: 'sizeBounds.${tier}' must be an object with minGBPerHour and maxGBPerHour.`);
+      }
+      const { minGBPerHour: rawMin, maxGBPerHour: rawMax } = raw as Record<string, unknown>;
+      const minGBPerHour = expectNumber(`sizeBounds.${tier}.minGBPerHour`, rawMin, 0, MAX_GB_PER_HOUR);
+      const maxGBPerHour = expectNumber(`sizeBounds.${tier}.maxGBPerHour`, rawMax, minGBPerHour, MAX_GB_PER_HOUR);
+      bounds[tier] = { minGBPerHour, maxGBPerHour };
+    }
+    return bounds;
+  },
+  sizeBoundsMode: (value) => expectOneOf<SizeBoundsMode>('sizeBoundsMode', value, SIZE_BOUNDS_MODES),
+  // Replaces the server's lists as a whole, so a user can also clear them with {}
+  releaseGroups: (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Invalid config: 'releaseGroups' must be an object with the optional keys ${RELEASE_GROUP_LISTS.join(', ')}, aliases.`);
+    }
+    const raw = value as Record<string, unknown>;
+    const rules: ReleaseGroupRules = {};
+    for (const list of RELEASE_GROUP_LISTS) {
+      if (raw[list] !== undefined) {
+        rules[list] = expectStringArray(`releaseGroups.${list}`, raw[list], MAX_RELEASE_GROUPS, MAX_RELEASE_GROUP_NAME_LENGTH);
+      }
+    }
+    if (raw.aliases !== undefined) {
+      if (typeof raw.aliases !== 'object' || raw.aliases === null || Array.isArray(raw.aliases) ||
+          Object.keys(raw.aliases).length > MAX_RELEASE_GROUP_ALIASES) {
+        throw new Error(`Invalid config: 'releaseGroups.aliases' must be an object of at most ${MAX_RELEASE_GROUP_ALIASES} groups, each with an array of names.`);
+      }
+      rules.aliases = {};
+      for (const [group, aliases] of Object.entries(raw.aliases)) {
+        rules.aliases[expectString('releaseGroups.aliases', group, MAX_RELEASE_GROUP_NAME_LENGTH)] =
+          expectStringArray(`releaseGroups.aliases.${group}`, aliases, MAX_ALIASES_PER_RELEASE_GROUP, MAX_RELEASE_GROUP_NAME_LENGTH);
+      }
+    }
+    return rules;
+  },
+  sortPreference: (value) => {
+    const prefs = expectStringArray('sortPreference', value, SORT_PREFERENCE_VALUES.length);
+    const unknown = prefs.filter(p => !SORT_PREFERENCE_VALUES.includes(p));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid config: unknown sortPreference value(s) ${unknown.join(', ')}. Allowed: ${SORT_PREFERENCE_VALUES.join(', ')}.`);
+    }
+    return Array.from(new Set(prefs)) as SortPreference[];
+  },
+};
+
+export const USER_CONFIG_KEYS = Object.keys(USER_CONFIG_VALIDATORS) as Array<keyof UserConfig>;
+
+// Validates an arbitrary (already JSON-parsed) object and returns only the known, valid keys.
+// Unknown keys are ignored so that links generated by newer versions still work on older servers.
+export const validateUserConfig = (raw: unknown): UserConfig => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid config: expected a JSON object.');
+  }
+  const validated: Record<string, unknown> = {};
+  for (const key of USER_CONFIG_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value === undefined || value === null) continue;
+    validated[key] = USER_CONFIG_VALIDATORS[key](value);
+  }
+  return validated as UserConfig;
+};
+
+const expectEncodedLength = (encoded: string): void => {
+  if (encoded.length > MAX_ENCODED_CONFIG_LENGTH) {
+    throw new Error(`Invalid config: too long (${encoded.length} characters encoded, at most ${MAX_ENCODED_CONFIG_LENGTH}). Shorten some lists.`);
+  }
+};
+
+// Checks the length too, so no install link is handed out that decodeUserConfig would reject
+export const encodeUserConfig = (config: UserConfig): string => {
+  const encoded = Buffer.from(JSON.stringify(validateUserConfig(config)), 'utf8').toString('base64url');
+  expectEncodedLength(encoded);
+  return encoded;
+};
+
+export const decodeUserConfig = (encoded: string): UserConfig => {
+  expectEncodedLength(encoded);
+  if (!encoded || !/^[A-Za-z0-9_-]+={0,2}$/.test(encoded)) {
+    throw new Error('Invalid config: malformed config segment.');
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid config: config segment is not valid base64url-encoded JSON.');
+  }
+  return validateUserConfig(parsed);
+};
+
+// Overlays user settings on top of the server (env) defaults. Server-only keys always come from defaults.
+export const mergeUserConfig = (defaults: AddonConfig, userConfig?: UserConfig): AddonConfig => {
+  if (!userConfig) return defaults;
+  const merged: AddonConfig = { ...defaults };
+  const overlay = <K extends keyof UserConfig>(key: K) => {
+    if (userConfig[key] !== undefined) merged[key] = userConfig[key] as AddonConfig[K];
+  };
+  USER_CONFIG_KEYS.forEach(overlay);
+  // A user's single preferredLanguage (older install links) beats the server's preferredLanguages list
+  if (userConfig.preferredLanguage !== undefined && userConfig.preferredLanguages === undefined) {
+    merged.preferredLanguages = undefined;
+  }
+  return merged;
+};
@@ -0,0 +1,36 @@
+import { AddonConfig, SortPreference } from '../types';
+import { decodeUserConfig, encodeUserConfig } from '../utils/userConfig';
+import { renderConfigurePage, toFormValues } from './configurePage';
+
+const defaults: AddonConfig = {
+  bitmagnetPublicGraphQLEndpoint: 'http://bitmagnet:3333/graphql',
+  preferredLanguage: 'ENG',
+  qualitySortOrder: ['2160P', '1080P', '720P'],
+  filterLowQuality: true,
+  minSeeders: 0,
+  minTitleSimilarity: 0.6,
+  sortPreference: [SortPreference.Seeders, SortPreference.Quality],
+  releaseGroups: { prefer: ['FLUX'] },
+};
+
+describe('toFormValues', () => {
+  it('is a valid config, so the page can compare what it submits with it', () => {
+    const values = toFormValues(defaults);
+    expect(decodeUserConfig(encodeUserConfig(values))).toEqual(JSON.parse(JSON.stringify(values)));
+  });
+
+  it('lists scoring weights and size bounds in form order, and release group lists with empty ones unset', () => {
+    const values = toFormValues({ ...defaults, scoringWeights: { hdr: 1, quality: 2 } as AddonConfig['scoringWeights'] });
+    expect(Object.keys(values.scoringWeights || {})).toEqual(['quality', 'seeders', 'language', 'titleConfidence', 'size', 'codec', 'hdr', 'releaseGroup']);
+    expect(Object.keys(values.sizeBounds || {})).toEqual(['2160p', '1080p', '720p', 'sd']);
+    expect(JSON.stringify(values.releaseGroups)).toBe('{"prefer":["FLUX"]}');
+  });
+});
+
+describe('renderConfigurePage', () => {
+  it('embeds the server defaults for the page to leave unchanged settings out', () => {
+    const html = renderConfigurePage({ addonName: 'Addon', defaults: { ...defaults, preferredLanguage: '</script>' } });
+    expect(html).toContain('var serverDefaults = {"preferredLanguage":"\\u003c/script>"');
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+  });
+});
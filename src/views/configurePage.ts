@@ -0,0 +1,378 @@
+// Server-rendered HTML for the /configure page.
+// The page builds a UserConfig from the settings changed in the form, asks the server to validate + encode it
+// (POST /configure/encode), and shows the resulting `stremio://` install link and manifest URL. Validation lives on the server only,
+// so the page and the stream routes can never disagree about what a valid config is.
+
+import { AddonConfig, ResolutionTier, ScoringComponent, SizeBounds, SortPreference } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, DEFAULT_SIZE_BOUNDS, DEVICE_PROFILES, LANGUAGE_TABLE } from '../constants';
+import { UserConfig } from '../utils/userConfig';
+import { resolveBitmagnetEndpoints } from '../services/bitmagnetFederation';
+
+export interface ConfigurePageOptions {
+  addonName: string;
+  defaults: AddonConfig; // Env-derived server defaults
+  current?: UserConfig; // Decoded config when editing an existing install (/:config/configure)
+  error?: string; // Shown when the config being loaded was invalid
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch] as string));
+
+const SORT_PREFERENCE_LABELS: Record<SortPreference, string> = {
+  [SortPreference.Seeders]: 'Seeders',
+  [SortPreference.PreferredLanguage]: 'Preferred language',
+  [SortPreference.Quality]: 'Quality',
+  [SortPreference.Size]: 'Size (bigger first)',
+  [SortPreference.TitleMatch]: 'Title match',
+};
+
+const SCORING_COMPONENT_LABELS: Record<ScoringComponent, string> = {
+  quality: 'Quality (resolution + source)',
+  seeders: 'Seeders',
+  language: 'Preferred language',
+  titleConfidence: 'Title match',
+  size: 'Size',
+  codec: 'Efficient codec (AV1, HEVC)',
+  hdr: 'HDR',
+  releaseGroup: 'Known release group',
+};
+
+// The server defaults in the shape the form's submit handler builds (same keys, key order and empty values), so the
+// page can leave out every setting the user didn't change. Anything left out follows the server defaults, including
+// later changes to them, instead of freezing today's values into the install link.
+export const toFormValues = (defaults: AddonConfig): UserConfig => {
+  const weights = defaults.scoringWeights || DEFAULT_SCORING_WEIGHTS;
+  const sizeBounds = defaults.sizeBounds || DEFAULT_SIZE_BOUNDS;
+  const releaseGroups = defaults.releaseGroups || {};
+  return {
+    preferredLanguage: defaults.preferredLanguage,
+    preferredLanguages: defaults.preferredLanguages?.length ? defaults.preferredLanguages : undefined,
+    qualitySortOrder: defaults.qualitySortOrder,
+    filterLowQuality: defaults.filterLowQuality,
+    restrictToPreferredLanguage: !!defaults.restrictToPreferredLanguage,
+    preferredSubtitleLanguage: defaults.preferredSubtitleLanguage || undefined,
+    requireSubsWhenForeignAudio: !!defaults.requireSubsWhenForeignAudio,
+    minSeeders: defaults.minSeeders,
+    minTitleSimilarity: defaults.minTitleSimilarity,
+    scoringWeights: Object.fromEntries((Object.keys(SCORING_COMPONENT_LABELS) as ScoringComponent[])
+      .map(component => [component, weights[component]])) as Record<ScoringComponent, number>,
+    showScoreBreakdown: !!defaults.showScoreBreakdown,
+    deviceProfile: defaults.deviceProfile,
+    deviceCompatibilityMode: defaults.deviceCompatibilityMode === 'drop' ? 'drop' : 'deprioritize',
+    sizeBounds: Object.fromEntries((Object.keys(DEFAULT_SIZE_BOUNDS) as ResolutionTier[])
+      .map(tier => [tier, { minGBPerHour: sizeBounds[tier].minGBPerHour, maxGBPerHour: sizeBounds[tier].maxGBPerHour }])) as Record<ResolutionTier, SizeBounds>,
+    sizeBoundsMode: defaults.sizeBoundsMode === 'drop' ? 'drop' : 'penalize',
+    releaseGroups: { allow: releaseGroups.allow, prefer: releaseGroups.prefer, block: releaseGroups.block, aliases: releaseGroups.aliases },
+    sortPreference: defaults.sortPreference.filter(preference => preference in SORT_PREFERENCE_LABELS),
+  };
+};
+
+// Renders a reorderable list. Items listed in `enabled` come first (in that order) and are checked.
+const renderOrderedList = (id: string, all: string[], enabled: string[], labels?: Record<string, string>): string => {
+  const ordered = [...enabled.filter(v => all.includes(v)), ...all.filter(v => !enabled.includes(v))];
+  const items = ordered.map(value => `
+        <li draggable="true" data-value="${escapeHtml(value)}">
+          <input type="checkbox" ${enabled.includes(value) ? 'checked' : ''}>
+          <span class="label">${escapeHtml(labels?.[value] || value)}</span>
+          <button type="button" class="up" title="Move up">▲</button>
+          <button type="button" class="down" title="Move down">▼</button>
+        </li>`).join('');
+  return `<ul class="ordered" id="${id}">${items}</ul>`;
+};
+
+export const renderConfigurePage = (options: ConfigurePageOptions): string => {
+  const { addonName, defaults, current, error } = options;
+  const effective = { ...defaults, ...current };
+
+  // Offer every quality the defaults know about plus anything custom in the current config.
+  const knownQualities = Array.from(new Set([
+    '2160P', '1080P', '720P', '576P', '480P', 'SD', 'SCR', 'CAM', 'UNKNOWN',
+    ...defaults.qualitySortOrder, ...effective.qualitySortOrder,
+  ]));
+  const weights = effective.scoringWeights || DEFAULT_SCORING_WEIGHTS;
+  const weightInputs = (Object.keys(SCORING_COMPONENT_LABELS) as ScoringComponent[]).map(component => `
+      <label>${escapeHtml(SCORING_COMPONENT_LABELS[component])}
+        <input type="number" class="weight" data-component="${component}" min="0" max="1000" step="any" value="${weights[component]}" required>
+      </label>`).join('');
+  // No device (empty value) leaves deviceProfile out of the config, i.e. the server default applies
+  const deviceOptions = [`<option value="">${defaults.deviceProfile ? `Server default (${escapeHtml(DEVICE_PROFILES[defaults.deviceProfile].label)})` : 'Any device'}</option>`,
+    ...Object.entries(DEVICE_PROFILES).map(([name, profile]) =>
+      `<option value="${name}" ${current?.deviceProfile === name ? 'selected' : ''}>${escapeHtml(profile.label)}</option>`)].join('');
+  const sizeBounds = effective.sizeBounds || DEFAULT_SIZE_BOUNDS;
+  const sizeBoundInputs = (Object.keys(DEFAULT_SIZE_BOUNDS) as ResolutionTier[]).map(tier => `
+      <label>${tier === 'sd' ? 'SD' : tier}: from
+        <input type="number" class="size-bound" data-tier="${tier}" data-bound="minGBPerHour" min="0" max="1000" step="any" value="${sizeBounds[tier].minGBPerHour}" required>
+        to
+        <input type="number" class="size-bound" data-tier="${tier}" data-bound="maxGBPerHour" min="0" max="1000" step="any" value="${sizeBounds[tier].maxGBPerHour}" required>
+        GB per hour
+      </label>`).join('');
+  const releaseGroups = effective.releaseGroups || {};
+  const releaseGroupAliases = Object.entries(releaseGroups.aliases || {})
+    .map(([group, aliases]) => `${group}: ${aliases.join(', ')}`).join('\n');
+  const languageOptions = LANGUAGE_TABLE
+    .map(language => `<option value="${escapeHtml(language.code)}">${language.flag} ${escapeHtml(language.name)}</option>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(addonName)} – Configure</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2em auto; padding: 0 1em; background: #1b1b2f; color: #eee; }
+    fieldset { border: 1px solid #444; border-radius: 6px; margin-bottom: 1em; }
+    label { display: block; margin: .5em 0; }
+    input[type=text], input[type=number], input[type=url] { width: 100%; padding: .4em; box-sizing: border-box; }
+    input.size-bound { width: 6em; }
+    textarea { width: 100%; padding: .4em; box-sizing: border-box; font-family: inherit; }
+    ul.ordered { list-style: none; padding: 0; }
+    ul.ordered li { padding: .3em .5em; margin: .2em 0; background: #2a2a45; border-radius: 4px; cursor: move; display: flex; gap: .5em; align-items: center; }
+    ul.ordered li .label { flex: 1; }
+    ul.ordered li.dragging { opacity: .4; }
+    .error { color: #ff7b7b; }
+    .hint { color: #aaa; font-size: .9em; }
+    .result { word-break: break-all; }
+    button.primary, a.button { background: #8a5cf6; color: #fff; border: 0; padding: .6em 1.2em; border-radius: 4px; cursor: pointer; text-decoration: none; display: inline-block; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(addonName)} Configuration</h1>
+  ${resolveBitmagnetEndpoints(defaults).length > 0 ? '' : '<p class="error"><b>Server warning:</b> no Bitmagnet endpoint is configured on this server.</p>'}
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+
+  <fieldset>
+    <legend>Load an existing configuration</legend>
+    <label>Paste an install or manifest URL of this addon
+      <input type="url" id="loadUrl" placeholder="stremio://host/…/manifest.json">
+    </label>
+    <button type="button" id="loadButton">Load</button>
+  </fieldset>
+
+  <form id="configForm">
+    <fieldset>
+      <legend>Language</legend>
+      <label>Preferred language
+        <input type="text" id="preferredLanguage" list="languages" value="${escapeHtml(effective.preferredLanguage)}" maxlength="32" required>
+        <datalist id="languages">${languageOptions}</datalist>
+      </label>
+      <label>Fallback order
+        <input type="text" id="preferredLanguages" value="${escapeHtml((effective.preferredLanguages || []).join(', '))}" maxlength="200" placeholder="e.g. pt-BR, pt, en">
+      </label>
+      <p class="hint">Comma-separated, most wanted first; replaces the preferred language above when set. Codes (en, pt-BR, pol) or names.</p>
+      <label><input type="checkbox" id="restrictToPreferredLanguage" ${effective.restrictToPreferredLanguage ? 'checked' : ''}> Only show releases in the preferred language (or multi-language ones)</label>
+      <label>Preferred subtitle language
+        <input type="text" id="preferredSubtitleLanguage" list="languages" value="${escapeHtml(effective.preferredSubtitleLanguage || '')}" maxlength="32" placeholder="Same as preferred language">
+      </label>
+      <label><input type="checkbox" id="requireSubsWhenForeignAudio" ${effective.requireSubsWhenForeignAudio ? 'checked' : ''}> Only show releases in another language if they have subtitles in the preferred subtitle language</label>
+    </fieldset>
+
+    <fieldset>
+      <legend>Quality order</legend>
+      <p class="hint">Drag (or use the arrows) to order qualities from best to worst. Unchecked entries are left out of the order.</p>
+      ${renderOrderedList('qualitySortOrder', knownQualities, effective.qualitySortOrder)}
+      <label><input type="checkbox" id="filterLowQuality" ${effective.filterLowQuality ? 'checked' : ''}> Hide CAM/TS/SCR and SD releases when better ones exist</label>
+    </fieldset>
+
+    <fieldset>
+      <legend>Device</legend>
+      <label>Playing on
+        <select id="deviceProfile">${deviceOptions}</select>
+      </label>
+      <label><input type="checkbox" id="dropIncompatible" ${effective.deviceCompatibilityMode === 'drop' ? 'checked' : ''}> Hide streams the device can't play (instead of listing them last)</label>
+    </fieldset>
+
+    <fieldset>
+      <legend>Filtering</legend>
+      <label>Minimum seeders
+        <input type="number" id="minSeeders" min="0" max="100000" step="1" value="${effective.minSeeders}" required>
+      </label>
+      <label>Minimum title match (0 = keep everything, 1 = exact titles only)
+        <input type="number" id="minTitleSimilarity" min="0" max="1" step="0.05" value="${effective.minTitleSimilarity}" required>
+      </label>
+    </fieldset>
+
+    <fieldset>
+      <legend>Size limits</legend>
+      <p class="hint">Plausible sizes per hour of runtime for each resolution (1 GB per hour is about 2.4 Mbps). Smaller ones are often fakes; lower the maximum to avoid huge remuxes.</p>
+      ${sizeBoundInputs}
+      <label><input type="checkbox" id="dropSizeOutliers" ${effective.sizeBoundsMode === 'drop' ? 'checked' : ''}> Hide streams outside these limits (instead of ranking them lower)</label>
+    </fieldset>
+
+    <fieldset>
+      <legend>Release groups</legend>
+      <p class="hint">Comma-separated group names, e.g. "FraMeSToR, FLUX", up to 12 per list. Case doesn't matter.</p>
+      <label>Preferred groups (ranked higher)
+        <input type="text" id="releaseGroupsPrefer" value="${escapeHtml((releaseGroups.prefer || []).join(', '))}">
+      </label>
+      <label>Only these groups (leave empty for any group; preferred groups are always kept)
+        <input type="text" id="releaseGroupsAllow" value="${escapeHtml((releaseGroups.allow || []).join(', '))}">
+      </label>
+      <label>Hidden groups (fakes, bad re-encodes)
+        <input type="text" id="releaseGroupsBlock" value="${escapeHtml((releaseGroups.block || []).join(', '))}">
+      </label>
+      <label>Aliases, one group per line (up to 6 groups with 4 other names each): "Name: other name, other name"
+        <textarea id="releaseGroupAliases" rows="3">${escapeHtml(releaseGroupAliases)}</textarea>
+      </label>
+    </fieldset>
+
+    <fieldset>
+      <legend>Ranking</legend>
+      <p class="hint">Streams are ranked by score: each criterion adds up to its weight. Set a weight to 0 to ignore that criterion.</p>
+      ${weightInputs}
+      <label><input type="checkbox" id="showScoreBreakdown" ${effective.showScoreBreakdown ? 'checked' : ''}> Show each stream's score breakdown</label>
+      <p class="hint">Tie-breakers for equal scores, applied top to bottom:</p>
+      ${renderOrderedList('sortPreference', Object.values(SortPreference), effective.sortPreference, SORT_PREFERENCE_LABELS)}
+    </fieldset>
+
+    <button type="submit" class="primary">Generate install link</button>
+  </form>
+
+  <div id="output" hidden>
+    <h2>Install</h2>
+    <p><a class="button" id="installLink" href="#">Install in Stremio</a></p>
+    <label>Manifest URL
+      <input type="text" id="manifestUrl" readonly>
+    </label>
+    <button type="button" id="copyButton">Copy manifest URL</button>
+  </div>
+  <p id="formError" class="error" hidden></p>
+
+  <script>
+    (function () {
+      var serverDefaults = ${JSON.stringify(toFormValues(defaults)).replace(/</g, '\\u003c')};
+
+      // Drag and drop + arrow buttons for ordered lists
+      document.querySelectorAll('ul.ordered').forEach(function (list) {
+        var dragged = null;
+        list.addEventListener('dragstart', function (e) { dragged = e.target.closest('li'); dragged.classList.add('dragging'); });
+        list.addEventListener('dragend', function () { if (dragged) dragged.classList.remove('dragging'); dragged = null; });
+        list.addEventListener('dragover', function (e) {
+          e.preventDefault();
+          var over = e.target.closest('li');
+          if (!dragged || !over || over === dragged) return;
+          var rect = over.getBoundingClientRect();
+          list.insertBefore(dragged, (e.clientY - rect.top) > rect.height / 2 ? over.nextSibling : over);
+        });
+        list.addEventListener('click', function (e) {
+          var li = e.target.closest('li');
+          if (!li) return;
+          if (e.target.classList.contains('up') && li.previousElementSibling) list.insertBefore(li, li.previousElementSibling);
+          if (e.target.classList.contains('down') && li.nextElementSibling) list.insertBefore(li.nextElementSibling, li);
+        });
+      });
+
+      function checkedValues(id) {
+        return Array.prototype.slice.call(document.querySelectorAll('#' + id + ' li'))
+          .filter(function (li) { return li.querySelector('input').checked; })
+          .map(function (li) { return li.dataset.value; });
+      }
+
+      function commaList(text) {
+        var values = text.split(',').map(function (value) { return value.trim(); }).filter(Boolean);
+        return values.length > 0 ? values : undefined;
+      }
+
+      // Empty lists are kept (not undefined), so emptying the fields clears the server's lists
+      function releaseGroupValues() {
+        var aliases = {};
+        document.getElementById('releaseGroupAliases').value.split('\\n').forEach(function (line) {
+          var separator = line.indexOf(':');
+          var names = separator > 0 ? commaList(line.slice(separator + 1)) : undefined;
+          if (names) aliases[line.slice(0, separator).trim()] = names;
+        });
+        return {
+          allow: commaList(document.getElementById('releaseGroupsAllow').value),
+          prefer: commaList(document.getElementById('releaseGroupsPrefer').value),
+          block: commaList(document.getElementById('releaseGroupsBlock').value),
+          aliases: Object.keys(aliases).length > 0 ? aliases : undefined,
+        };
+      }
+
+      function weightValues() {
+        var weights = {};
+        document.querySelectorAll('input.weight').forEach(function (input) { weights[input.dataset.component] = Number(input.value); });
+        return weights;
+      }
+
+      function sizeBoundValues() {
+        var bounds = {};
+        document.querySelectorAll('input.size-bound').forEach(function (input) {
+          bounds[input.dataset.tier] = bounds[input.dataset.tier] || {};
+          bounds[input.dataset.tier][input.dataset.bound] = Number(input.value);
+        });
+        return bounds;
+      }
+
+      function showError(message) {
+        var el = document.getElementById('formError');
+        el.textContent = message;
+        el.hidden = !message;
+      }
+
+      function showInstallLink(manifestUrl) {
+        document.getElementById('manifestUrl').value = manifestUrl;
+        document.getElementById('installLink').href = manifestUrl.replace(/^https?:\\/\\//, 'stremio://');
+        document.getElementById('output').hidden = false;
+      }
+
+      document.getElementById('configForm').addEventListener('submit', function (e) {
+        e.preventDefault();
+        showError('');
+        var config = {
+          preferredLanguage: document.getElementById('preferredLanguage').value.trim(),
+          preferredLanguages: commaList(document.getElementById('preferredLanguages').value),
+          qualitySortOrder: checkedValues('qualitySortOrder'),
+          filterLowQuality: document.getElementById('filterLowQuality').checked,
+          restrictToPreferredLanguage: document.getElementById('restrictToPreferredLanguage').checked,
+          preferredSubtitleLanguage: document.getElementById('preferredSubtitleLanguage').value.trim() || undefined,
+          requireSubsWhenForeignAudio: document.getElementById('requireSubsWhenForeignAudio').checked,
+          minSeeders: Number(document.getElementById('minSeeders').value),
+          minTitleSimilarity: Number(document.getElementById('minTitleSimilarity').value),
+          scoringWeights: weightValues(),
+          showScoreBreakdown: document.getElementById('showScoreBreakdown').checked,
+          deviceProfile: document.getElementById('deviceProfile').value || undefined,
+          deviceCompatibilityMode: document.getElementById('dropIncompatible').checked ? 'drop' : 'deprioritize',
+          sizeBounds: sizeBoundValues(),
+          sizeBoundsMode: document.getElementById('dropSizeOutliers').checked ? 'drop' : 'penalize',
+          releaseGroups: releaseGroupValues(),
+          sortPreference: checkedValues('sortPreference'),
+        };
+        // Only settings that differ from the server defaults go into the link; the others keep following the server
+        Object.keys(config).forEach(function (key) {
+          if (JSON.stringify(config[key]) === JSON.stringify(serverDefaults[key])) delete config[key];
+        });
+        // An emptied fallback order only drops the server's list next to a preferred language (see mergeUserConfig)
+        if ('preferredLanguages' in config && config.preferredLanguages === undefined) {
+          config.preferredLanguage = document.getElementById('preferredLanguage').value.trim();
+        }
+        if (Object.keys(config).length === 0) {
+          showInstallLink(window.location.origin + '/manifest.json');
+          return;
+        }
+        fetch('/configure/encode', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(config) })
+          .then(function (res) { return res.json().then(function (body) { return { ok: res.ok, body: body }; }); })
+          .then(function (result) {
+            if (!result.ok) throw new Error(result.body.error || 'Invalid configuration.');
+            showInstallLink(window.location.origin + '/' + result.body.config + '/manifest.json');
+          })
+          .catch(function (err) { showError(err.message); });
+      });
+
+      document.getElementById('copyButton').addEventListener('click', function () {
+        var input = document.getElementById('manifestUrl');
+        input.select();
+        if (navigator.clipboard) navigator.clipboard.writeText(input.value);
+        else document.execCommand('copy');
+      });
+
+      // Loading re-renders the page server-side from the config segment of the pasted URL.
+      document.getElementById('loadButton').addEventListener('click', function () {
+        var match = document.getElementById('loadUrl').value.trim().match(/^(?:stremio|https?):\\/\\/[^/]+\\/([^/]+)\\/manifest\\.json$/);
+        if (!match) { showError('Not a configured manifest URL of this addon.'); return; }
+        window.location.href = '/' + match[1] + '/configure';
+      });
+    })();
+  </script>
+</body>
+</html>`;
+};